@@ -2,16 +2,161 @@ import express from "express";
 import cors from "cors";
 import multer from "multer";
 import { trace } from "potrace";
+import polygonClipping from "polygon-clipping";
 import sharp from "sharp";
+import { createCanvas, Path2D } from "@napi-rs/canvas";
+import { create as createFont } from "fontkit";
+import { createHash, createPublicKey, randomUUID, verify } from "crypto";
+import { AsyncLocalStorage, AsyncResource } from "async_hooks";
+import { promises as fs } from "fs";
+import { createRequire } from "module";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
 
 const app = express();
-const upload = multer({ storage: multer.memoryStorage() });
+// Enforced server-side; the client checks the same file size before uploading
+const UPLOAD_LIMITS = { fileSize: 5 * 1024 * 1024, files: 20, maxDimension: 8000, maxPixels: 40e6 };
+const uploader = multer({ storage: multer.memoryStorage(), limits: { fileSize: UPLOAD_LIMITS.fileSize, files: UPLOAD_LIMITS.files } });
+// multer resumes from request stream events, outside the request's async context;
+// rebinding next keeps per-request state (result cache stats) visible to handlers
+const keepContext = (mw) => (req, res, next) => {
+  const scope = new AsyncResource("upload");
+  mw(req, res, (err) => scope.runInAsyncScope(next, null, err));
+};
+const upload = { single: (field) => keepContext(uploader.single(field)), array: (field, max) => keepContext(uploader.array(field, max)) };
 
-app.use(cors({ origin: true, methods: ["GET", "POST", "OPTIONS"], allowedHeaders: ["Content-Type"] }));
+app.use(cors({ origin: true, methods: ["GET", "POST", "DELETE", "OPTIONS"], allowedHeaders: ["Content-Type", "Authorization"], exposedHeaders: ["X-Cache"] }));
 app.use(express.json({ limit: "10mb" }));
 
 app.get("/", (_req, res) => res.send("OK"));
 
+// ---- Errors: every failure responds with { code, message, details } ----
+
+class ApiError extends Error {
+  constructor(status, code, message, details) {
+    super(message);
+    Object.assign(this, { status, code, details });
+  }
+}
+
+// Maps anything thrown (ours, multer's, the JSON body parser's) to a status and envelope
+function toErrorResponse(e) {
+  if (e instanceof ApiError) return { status: e.status, body: { code: e.code, message: e.message, details: e.details } };
+  if (e instanceof multer.MulterError) {
+    if (e.code === "LIMIT_FILE_SIZE") return { status: 413, body: { code: "FILE_TOO_LARGE", message: "File exceeds the upload size limit", details: { maxBytes: UPLOAD_LIMITS.fileSize } } };
+    if (e.code === "LIMIT_FILE_COUNT" || e.code === "LIMIT_UNEXPECTED_FILE") return { status: 400, body: { code: "TOO_MANY_FILES", message: "Too many files or unexpected file field", details: { maxFiles: UPLOAD_LIMITS.files, field: e.field } } };
+    return { status: 400, body: { code: "INVALID_UPLOAD", message: e.message } };
+  }
+  if (e?.type === "entity.too.large") return { status: 413, body: { code: "PAYLOAD_TOO_LARGE", message: "Request body too large" } };
+  if (e?.type === "entity.parse.failed") return { status: 400, body: { code: "INVALID_JSON", message: "Request body is not valid JSON" } };
+  return { status: 500, body: { code: "INTERNAL", message: "Unexpected server error", details: { reason: String(e?.message || e) } } };
+}
+
+function sendError(res, e) {
+  const { status, body } = toErrorResponse(e);
+  if (status >= 500) console.error(e);
+  res.status(status).json(body);
+}
+
+// ---- Result cache: content-addressed (SHA-256 of input + normalized options) ----
+// Stores share one interface, { get(key), set(key, value) }, both async. Pick with
+// RESULT_CACHE=memory (default, LRU) | fs (RESULT_CACHE_DIR) | off.
+
+const RESULT_CACHE = {
+  store: process.env.RESULT_CACHE || "memory",
+  dir: process.env.RESULT_CACHE_DIR || path.join(os.tmpdir(), "frame-maker-cache"),
+  ttl: Number(process.env.RESULT_CACHE_TTL_MS) || 24 * 60 * 60 * 1000,
+  maxBytes: Number(process.env.RESULT_CACHE_MAX_BYTES) || 64 * 1024 * 1024,
+};
+
+function createMemoryStore({ ttl, maxBytes }) {
+  const entries = new Map(); // insertion order doubles as recency order
+  let total = 0;
+  const drop = (key) => { total -= entries.get(key).size; entries.delete(key); };
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      drop(key);
+      if (entry.expires < Date.now()) return undefined;
+      entries.set(key, entry); total += entry.size;
+      return JSON.parse(entry.json);
+    },
+    async set(key, value) {
+      if (entries.has(key)) drop(key);
+      const json = JSON.stringify(value);
+      if (json.length > maxBytes) return;
+      entries.set(key, { json, size: json.length, expires: Date.now() + ttl }); total += json.length;
+      for (const oldest of entries.keys()) { if (total <= maxBytes) break; drop(oldest); }
+    },
+  };
+}
+
+// One JSON file per key; mtime tracks recency, pruning runs after writes
+function createFsStore({ dir, ttl, maxBytes }) {
+  const file = (key) => path.join(dir, `${key}.json`);
+  let pruning = null;
+  const prune = async () => {
+    const names = (await fs.readdir(dir)).filter((n) => n.endsWith(".json"));
+    const entries = (await Promise.all(names.map((name) => fs.stat(path.join(dir, name)).then((st) => ({ name, size: st.size, mtime: st.mtimeMs }), () => null)))).filter(Boolean);
+    let total = 0;
+    for (const entry of entries.sort((a, b) => b.mtime - a.mtime)) {
+      total += entry.size;
+      if (total > maxBytes || entry.mtime < Date.now() - ttl) await fs.rm(path.join(dir, entry.name), { force: true });
+    }
+  };
+  return {
+    async get(key) {
+      let entry;
+      try { entry = JSON.parse(await fs.readFile(file(key), "utf8")); } catch { return undefined; }
+      if (entry.expires < Date.now()) { await fs.rm(file(key), { force: true }); return undefined; }
+      const now = new Date();
+      await fs.utimes(file(key), now, now).catch(() => undefined);
+      return entry.value;
+    },
+    async set(key, value) {
+      await fs.mkdir(dir, { recursive: true });
+      const tmp = `${file(key)}.${randomUUID()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify({ expires: Date.now() + ttl, value }));
+      await fs.rename(tmp, file(key));
+      pruning ??= prune().catch(() => undefined).finally(() => { pruning = null; });
+    },
+  };
+}
+
+const resultStore = RESULT_CACHE.store === "off" ? null : RESULT_CACHE.store === "fs" ? createFsStore(RESULT_CACHE) : createMemoryStore(RESULT_CACHE);
+
+// Per-request hit/miss counts, reported as X-Cache: HIT | MISS | PARTIAL on JSON responses
+const cacheStats = new AsyncLocalStorage();
+app.use((_req, res, next) => {
+  const stats = { hits: 0, misses: 0 };
+  const json = res.json;
+  res.json = (body) => {
+    if (stats.hits + stats.misses && !res.headersSent) res.setHeader("X-Cache", !stats.misses ? "HIT" : stats.hits ? "PARTIAL" : "MISS");
+    return json.call(res, body);
+  };
+  cacheStats.run(stats, next);
+});
+
+// Options are hashed with sorted keys and undefined/empty values dropped, so field order doesn't matter
+function cacheKey(kind, input, opts) {
+  const normalized = Object.keys(opts).sort().filter((k) => opts[k] !== undefined && opts[k] !== "").map((k) => [k, opts[k]]);
+  return createHash("sha256").update(kind).update("\0").update(input).update("\0").update(JSON.stringify(normalized)).digest("hex");
+}
+
+async function cachedResult(kind, input, opts, compute) {
+  if (!resultStore) return compute();
+  const key = cacheKey(kind, input, opts);
+  const stats = cacheStats.getStore();
+  const hit = await resultStore.get(key).catch(() => undefined);
+  if (hit !== undefined) { if (stats) stats.hits++; return hit; }
+  if (stats) stats.misses++;
+  const value = await compute();
+  await resultStore.set(key, value).catch((e) => console.error("Result cache write failed:", e));
+  return value;
+}
+
 function extractViewBox(svg) {
   const m = svg.match(/viewBox="([\d.\-]+)\s+([\d.\-]+)\s+([\d.\-]+)\s+([\d.\-]+)"/);
   if (!m) return { width: 1000, height: 1000, left: 0, top: 0 };
@@ -21,201 +166,2031 @@ function extractViewBox(svg) {
 function traceSvg(buffer, opts = {}) {
   return new Promise((resolve, reject) => {
     trace(buffer, {
-      turdSize: opts.turdSize || 20, optCurve: true, alphaMax: 1,
-      threshold: opts.threshold || 160, color: "black", background: "transparent", ...opts,
+      turdSize: opts.turdSize ?? 20, optCurve: true, alphaMax: opts.alphaMax ?? 1, optTolerance: opts.optTolerance ?? 0.2,
+      threshold: opts.threshold ?? 160, color: "black", background: "transparent",
     }, (err, svg) => { if (err) reject(err); else resolve(svg); });
   });
 }
 
-function splitToSingleMovePaths(d) {
-  const parts = [];
-  let current = "";
-  for (let i = 0; i < d.length; i++) {
-    const char = d[i];
-    if ((char === "M" || char === "m") && current.trim().length > 0) {
-      parts.push(current.trim());
-      current = "";
-    }
-    current += char;
-  }
-  if (current.trim()) parts.push(current.trim());
-  return parts
-    .filter((p) => p.length > 3)
-    .map((p) => {
-      const t = p.trim();
-      if (!t.endsWith("Z") && !t.endsWith("z")) return t + " Z";
-      return t;
-    });
+// Tracing parameters clients may override, with the valid range for each.
+// tolerance/minArea/precision drive the simplification stage after potrace.
+const TRACE_PARAMS = {
+  threshold:    { min: 0, max: 255, integer: true },
+  turdSize:     { min: 0, max: 100, integer: true },
+  optTolerance: { min: 0, max: 1 },
+  alphaMax:     { min: 0, max: 1.3334 },
+  tolerance:    { min: 0, max: 50 },
+  minArea:      { min: 0, max: 1000000 },
+  precision:    { min: 0, max: 3, integer: true },
+};
+
+// Background removal mask shaping, in source pixels (negative dilate shrinks)
+const SEGMENT_PARAMS = {
+  feather: { min: 0, max: 20 },
+  dilate:  { min: -20, max: 20 },
+};
+
+// Text layout, in ems of the font size (maxWidth 0 disables wrapping)
+const TEXT_LAYOUT_PARAMS = {
+  lineHeight:    { min: 0.5, max: 3 },
+  letterSpacing: { min: -0.2, max: 1 },
+  maxWidth:      { min: 0, max: 100 },
+};
+const TEXT_ALIGNS = ["left", "center", "right"];
+
+// Curved text: arc radius and outline width in ems, angles in degrees clockwise from
+// 12 o'clock, offset as a fraction of the outline's length
+const TEXT_CURVE_PARAMS = {
+  radius:     { min: 0.5, max: 50 },
+  startAngle: { min: -360, max: 360 },
+  width:      { min: 1, max: 100 },
+  offset:     { min: 0, max: 1 },
+};
+const TEXT_CURVES = ["arc", "path"];
+const CURVE_DIRECTIONS = ["clockwise", "counterclockwise"];
+const MAX_TEXT_LENGTH = 500;
+
+// Reads tracing overrides from multipart fields; route defaults fill the rest
+function parseTraceOptions(body = {}, defaults = {}, params = TRACE_PARAMS) {
+  const opts = { ...defaults };
+  for (const [key, range] of Object.entries(params)) {
+    if (body[key] === undefined || body[key] === "") continue;
+    const value = Number(body[key]);
+    if (!Number.isFinite(value) || value < range.min || value > range.max || (range.integer && !Number.isInteger(value))) {
+      throw new ApiError(400, "INVALID_OPTIONS", `${key} must be ${range.integer ? "an integer" : "a number"} between ${range.min} and ${range.max}`, { field: key, ...range });
+    }
+    opts[key] = value;
+  }
+  return opts;
+}
+
+// ---- Path geometry: parse to absolute M/L/C/Z, flatten, simplify, serialize ----
+
+// Subpath shape: { start: [x, y], segs: [{ to } | { c1, c2, to }], closed }
+function tokenizePath(d) {
+  const tokens = [];
+  const re = /([MmLlHhVvCcSsQqTtAaZz])|([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/g;
+  let m;
+  while ((m = re.exec(d))) tokens.push(m[1] ? m[1] : Number(m[2]));
+  return tokens;
+}
+
+// Splits compact arc flags ("a5 5 0 1010 10") that the tokenizer reads as one number
+function readArcFlag(tokens, i) {
+  const t = tokens[i];
+  if (t === 0 || t === 1) return [t, false];
+  const s = String(t);
+  tokens.splice(i, 1, Number(s[0]), Number(s.slice(1)));
+  return [tokens[i], true];
+}
+
+function arcToCubics(x1, y1, rx, ry, angle, largeArc, sweep, x2, y2) {
+  if (rx === 0 || ry === 0 || (x1 === x2 && y1 === y2)) return [{ to: [x2, y2] }];
+  const phi = (angle * Math.PI) / 180, cos = Math.cos(phi), sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2, dy = (y1 - y2) / 2;
+  const xp = cos * dx + sin * dy, yp = -sin * dx + cos * dy;
+  rx = Math.abs(rx); ry = Math.abs(ry);
+  const lambda = (xp * xp) / (rx * rx) + (yp * yp) / (ry * ry);
+  if (lambda > 1) { rx *= Math.sqrt(lambda); ry *= Math.sqrt(lambda); }
+  const num = rx * rx * ry * ry - rx * rx * yp * yp - ry * ry * xp * xp;
+  const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / (rx * rx * yp * yp + ry * ry * xp * xp)));
+  const cxp = (coef * rx * yp) / ry, cyp = (-coef * ry * xp) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2, cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+  const vecAngle = (ux, uy, vx, vy) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta1 = vecAngle(1, 0, (xp - cxp) / rx, (yp - cyp) / ry);
+  let delta = vecAngle((xp - cxp) / rx, (yp - cyp) / ry, (-xp - cxp) / rx, (-yp - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+  const n = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+  const step = delta / n, k = (4 / 3) * Math.tan(step / 4);
+  const point = (t) => [cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin, cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos];
+  const deriv = (t) => [-rx * Math.sin(t) * cos - ry * Math.cos(t) * sin, -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos];
+  const segs = [];
+  for (let i = 0; i < n; i++) {
+    const a = theta1 + i * step, b = a + step;
+    const p0 = point(a), p3 = point(b), d0 = deriv(a), d3 = deriv(b);
+    segs.push({ c1: [p0[0] + k * d0[0], p0[1] + k * d0[1]], c2: [p3[0] - k * d3[0], p3[1] - k * d3[1]], to: p3 });
+  }
+  segs[segs.length - 1].to = [x2, y2];
+  return segs;
+}
+
+function parsePath(d) {
+  const tokens = tokenizePath(d);
+  const subpaths = [];
+  let sp = null, cmd = null, i = 0;
+  let x = 0, y = 0, lastCtrl = null, lastCmd = "";
+  const num = () => tokens[i++];
+  const begin = (px, py) => { sp = { start: [px, py], segs: [], closed: false }; subpaths.push(sp); };
+  while (i < tokens.length) {
+    if (typeof tokens[i] === "string") cmd = tokens[i++];
+    else if (!cmd) { i++; continue; }
+    const rel = cmd === cmd.toLowerCase() && cmd !== "z" ? 1 : 0;
+    const C = cmd.toUpperCase();
+    const ox = rel ? x : 0, oy = rel ? y : 0;
+    if (C === "Z") {
+      if (sp) { sp.closed = true; [x, y] = sp.start; }
+      lastCtrl = null; lastCmd = C; cmd = null; continue;
+    }
+    if (C !== "M" && (!sp || sp.closed)) begin(x, y);
+    switch (C) {
+      case "M": x = ox + num(); y = oy + num(); begin(x, y); cmd = rel ? "l" : "L"; lastCtrl = null; break;
+      case "L": x = ox + num(); y = oy + num(); sp.segs.push({ to: [x, y] }); lastCtrl = null; break;
+      case "H": x = ox + num(); sp.segs.push({ to: [x, y] }); lastCtrl = null; break;
+      case "V": y = oy + num(); sp.segs.push({ to: [x, y] }); lastCtrl = null; break;
+      case "C": {
+        const c1 = [ox + num(), oy + num()], c2 = [ox + num(), oy + num()];
+        x = ox + num(); y = oy + num(); sp.segs.push({ c1, c2, to: [x, y] }); lastCtrl = c2; break;
+      }
+      case "S": {
+        const c1 = lastCtrl && (lastCmd === "C" || lastCmd === "S") ? [2 * x - lastCtrl[0], 2 * y - lastCtrl[1]] : [x, y];
+        const c2 = [ox + num(), oy + num()];
+        x = ox + num(); y = oy + num(); sp.segs.push({ c1, c2, to: [x, y] }); lastCtrl = c2; break;
+      }
+      case "Q": case "T": {
+        const q = C === "Q" ? [ox + num(), oy + num()]
+          : lastCtrl && (lastCmd === "Q" || lastCmd === "T") ? [2 * x - lastCtrl[0], 2 * y - lastCtrl[1]] : [x, y];
+        const nx = ox + num(), ny = oy + num();
+        sp.segs.push({ c1: [x + (2 / 3) * (q[0] - x), y + (2 / 3) * (q[1] - y)], c2: [nx + (2 / 3) * (q[0] - nx), ny + (2 / 3) * (q[1] - ny)], to: [nx, ny] });
+        x = nx; y = ny; lastCtrl = q; break;
+      }
+      case "A": {
+        const rx = num(), ry = num(), angle = num();
+        const [large] = readArcFlag(tokens, i); i++;
+        const [sweep] = readArcFlag(tokens, i); i++;
+        const nx = ox + num(), ny = oy + num();
+        sp.segs.push(...arcToCubics(x, y, rx, ry, angle, large, sweep, nx, ny));
+        x = nx; y = ny; lastCtrl = null; break;
+      }
+      default: i++;
+    }
+    lastCmd = C;
+  }
+  return subpaths.filter((s) => s.segs.length > 0);
+}
+
+function roundCoord(v, precision) {
+  const r = Number(v.toFixed(precision));
+  return Object.is(r, -0) ? 0 : r;
+}
+
+// Compact serializer: "M1 2L3 4C5 6 7 8 9 10Z"; always closed, as Canva shapes require
+function serializeSubpath(sp, precision = 1) {
+  const f = (p) => `${roundCoord(p[0], precision)} ${roundCoord(p[1], precision)}`;
+  let d = `M${f(sp.start)}`;
+  for (const s of sp.segs) d += s.c1 ? `C${f(s.c1)} ${f(s.c2)} ${f(s.to)}` : `L${f(s.to)}`;
+  return d + "Z";
+}
+
+function flattenSubpath(sp, step = 2) {
+  const pts = [sp.start];
+  let prev = sp.start;
+  for (const s of sp.segs) {
+    if (!s.c1) { pts.push(s.to); prev = s.to; continue; }
+    const len = Math.hypot(s.c1[0] - prev[0], s.c1[1] - prev[1]) + Math.hypot(s.c2[0] - s.c1[0], s.c2[1] - s.c1[1]) + Math.hypot(s.to[0] - s.c2[0], s.to[1] - s.c2[1]);
+    const n = Math.max(2, Math.min(64, Math.ceil(len / step)));
+    for (let k = 1; k <= n; k++) pts.push(bezierPoint(prev, s.c1, s.c2, s.to, k / n));
+    prev = s.to;
+  }
+  const [fx, fy] = pts[0], [lx, ly] = pts[pts.length - 1];
+  if (pts.length > 1 && Math.hypot(fx - lx, fy - ly) < 1e-9) pts.pop();
+  return pts;
+}
+
+function bezierPoint(p0, p1, p2, p3, t) {
+  const mt = 1 - t, a = mt * mt * mt, b = 3 * mt * mt * t, c = 3 * mt * t * t, e = t * t * t;
+  return [a * p0[0] + b * p1[0] + c * p2[0] + e * p3[0], a * p0[1] + b * p1[1] + c * p2[1] + e * p3[1]];
+}
+
+// Signed shoelace area; sign gives winding direction
+function polygonArea(pts) {
+  let a = 0;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) a += (pts[j][0] + pts[i][0]) * (pts[j][1] - pts[i][1]);
+  return a / 2;
+}
+
+// Ramer–Douglas–Peucker on an open polyline
+function rdp(pts, tolerance) {
+  if (pts.length < 3) return pts;
+  const keep = new Uint8Array(pts.length);
+  keep[0] = keep[pts.length - 1] = 1;
+  const stack = [[0, pts.length - 1]];
+  while (stack.length) {
+    const [a, b] = stack.pop();
+    const [ax, ay] = pts[a], [bx, by] = pts[b];
+    const len = Math.hypot(bx - ax, by - ay);
+    let maxD = 0, idx = -1;
+    for (let k = a + 1; k < b; k++) {
+      const dist = len === 0 ? Math.hypot(pts[k][0] - ax, pts[k][1] - ay) : Math.abs((bx - ax) * (ay - pts[k][1]) - (ax - pts[k][0]) * (by - ay)) / len;
+      if (dist > maxD) { maxD = dist; idx = k; }
+    }
+    if (maxD > tolerance) { keep[idx] = 1; stack.push([a, idx], [idx, b]); }
+  }
+  return pts.filter((_, k) => keep[k]);
+}
+
+// Schneider curve fitting ("An Algorithm for Automatically Fitting Digitized Curves", Graphics Gems)
+const vSub = (a, b) => [a[0] - b[0], a[1] - b[1]];
+const vAdd = (a, b) => [a[0] + b[0], a[1] + b[1]];
+const vScale = (a, s) => [a[0] * s, a[1] * s];
+const vDot = (a, b) => a[0] * b[0] + a[1] * b[1];
+const vNorm = (a) => { const l = Math.hypot(a[0], a[1]) || 1; return [a[0] / l, a[1] / l]; };
+
+function fitCubics(pts, error) {
+  if (pts.length < 2) return [];
+  const out = [];
+  fitCubicRange(pts, 0, pts.length - 1, vNorm(vSub(pts[1], pts[0])), vNorm(vSub(pts[pts.length - 2], pts[pts.length - 1])), error, out);
+  return out;
+}
+
+function fitCubicRange(pts, first, last, tHat1, tHat2, error, out) {
+  if (last - first === 1) {
+    const dist = Math.hypot(...vSub(pts[last], pts[first])) / 3;
+    out.push({ c1: vAdd(pts[first], vScale(tHat1, dist)), c2: vAdd(pts[last], vScale(tHat2, dist)), to: pts[last] });
+    return;
+  }
+  let u = chordLengthParams(pts, first, last);
+  let bez = generateBezier(pts, first, last, u, tHat1, tHat2);
+  let [maxError, split] = maxFitError(pts, first, last, bez, u);
+  if (maxError < error) { out.push({ c1: bez[1], c2: bez[2], to: bez[3] }); return; }
+  if (maxError < error * 4) {
+    for (let iter = 0; iter < 4; iter++) {
+      u = u.map((t, k) => newtonRoot(bez, pts[first + k], t));
+      bez = generateBezier(pts, first, last, u, tHat1, tHat2);
+      [maxError, split] = maxFitError(pts, first, last, bez, u);
+      if (maxError < error) { out.push({ c1: bez[1], c2: bez[2], to: bez[3] }); return; }
+    }
+  }
+  const tCenter = vNorm(vSub(pts[split - 1], pts[split + 1]));
+  fitCubicRange(pts, first, split, tHat1, tCenter, error, out);
+  fitCubicRange(pts, split, last, vScale(tCenter, -1), tHat2, error, out);
+}
+
+function chordLengthParams(pts, first, last) {
+  const u = [0];
+  for (let k = first + 1; k <= last; k++) u.push(u[u.length - 1] + Math.hypot(...vSub(pts[k], pts[k - 1])));
+  const total = u[u.length - 1] || 1;
+  return u.map((v) => v / total);
+}
+
+function generateBezier(pts, first, last, u, tHat1, tHat2) {
+  const p0 = pts[first], p3 = pts[last];
+  let c00 = 0, c01 = 0, c11 = 0, x0 = 0, x1 = 0;
+  for (let k = 0; k < u.length; k++) {
+    const t = u[k], mt = 1 - t;
+    const a1 = vScale(tHat1, 3 * mt * mt * t), a2 = vScale(tHat2, 3 * mt * t * t);
+    c00 += vDot(a1, a1); c01 += vDot(a1, a2); c11 += vDot(a2, a2);
+    const tmp = vSub(pts[first + k], vAdd(vScale(p0, mt * mt * mt + 3 * mt * mt * t), vScale(p3, 3 * mt * t * t + t * t * t)));
+    x0 += vDot(a1, tmp); x1 += vDot(a2, tmp);
+  }
+  const det = c00 * c11 - c01 * c01;
+  let alpha1 = det === 0 ? 0 : (x0 * c11 - x1 * c01) / det;
+  let alpha2 = det === 0 ? 0 : (c00 * x1 - c01 * x0) / det;
+  const segLen = Math.hypot(...vSub(p3, p0)), eps = 1e-6 * segLen;
+  if (alpha1 < eps || alpha2 < eps) alpha1 = alpha2 = segLen / 3;
+  return [p0, vAdd(p0, vScale(tHat1, alpha1)), vAdd(p3, vScale(tHat2, alpha2)), p3];
+}
+
+function maxFitError(pts, first, last, bez, u) {
+  let maxDist = 0, split = Math.floor((first + last) / 2);
+  for (let k = first + 1; k < last; k++) {
+    const p = bezierPoint(bez[0], bez[1], bez[2], bez[3], u[k - first]);
+    const dist = (p[0] - pts[k][0]) ** 2 + (p[1] - pts[k][1]) ** 2;
+    if (dist >= maxDist) { maxDist = dist; split = k; }
+  }
+  return [maxDist, split];
+}
+
+function newtonRoot(bez, p, t) {
+  const q = bezierPoint(bez[0], bez[1], bez[2], bez[3], t);
+  const d1 = [0, 1, 2].map((k) => vScale(vSub(bez[k + 1], bez[k]), 3));
+  const d2 = [0, 1].map((k) => vScale(vSub(d1[k + 1], d1[k]), 2));
+  const mt = 1 - t;
+  const q1 = vAdd(vAdd(vScale(d1[0], mt * mt), vScale(d1[1], 2 * mt * t)), vScale(d1[2], t * t));
+  const q2 = vAdd(vScale(d2[0], mt), vScale(d2[1], t));
+  const diff = vSub(q, p);
+  const den = vDot(q1, q1) + vDot(diff, q2);
+  return den === 0 ? t : t - vDot(diff, q1) / den;
+}
+
+// Refits a closed subpath within `tolerance`, splitting at corners sharper than ~50°
+function simplifySubpath(sp, tolerance) {
+  const pts = rdp(flattenSubpath(sp, Math.max(0.5, tolerance / 2)).concat([sp.start]), tolerance / 4);
+  if (pts.length < 4) return sp;
+  const corners = [0];
+  for (let k = 1; k < pts.length - 1; k++) {
+    const a = vNorm(vSub(pts[k], pts[k - 1])), b = vNorm(vSub(pts[k + 1], pts[k]));
+    if (vDot(a, b) < 0.64) corners.push(k);
+  }
+  corners.push(pts.length - 1);
+  const segs = [];
+  for (let c = 0; c < corners.length - 1; c++) {
+    const run = pts.slice(corners[c], corners[c + 1] + 1);
+    const fitted = run.length === 2 ? [{ to: run[1] }] : fitCubics(rdp(run, tolerance / 2), tolerance * tolerance);
+    for (const s of fitted) {
+      const prev = segs.length ? segs[segs.length - 1].to : pts[0];
+      // Near-straight cubics become lines; they serialize at a third of the size
+      if (s.c1 && segDistance(s.c1, prev, s.to) < tolerance / 2 && segDistance(s.c2, prev, s.to) < tolerance / 2) segs.push({ to: s.to });
+      else segs.push(s);
+    }
+  }
+  return { start: pts[0], segs, closed: true };
+}
+
+function segDistance(p, a, b) {
+  const ab = vSub(b, a), len2 = vDot(ab, ab);
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, vDot(vSub(p, a), ab) / len2));
+  return Math.hypot(...vSub(p, vAdd(a, vScale(ab, t))));
+}
+
+// Applies area filtering, optional curve refitting and precision rounding to path strings
+// Each path's subpaths are grouped into outer contours with their holes bridged in,
+// since a Canva shape path may only contain a single M command.
+function simplifyPaths(paths, opts = {}) {
+  return paths.flatMap((d) => simplifySubpaths(parsePath(d), opts));
+}
+
+function simplifySubpaths(subpaths, opts = {}) {
+  const { tolerance = 0, minArea = 0, precision = 1 } = opts;
+  const kept = [];
+  for (const sp of subpaths) {
+    if (minArea > 0 && Math.abs(polygonArea(flattenSubpath(sp))) < minArea) continue;
+    kept.push(tolerance > 0 ? simplifySubpath(sp, tolerance) : sp);
+  }
+  return bridgeHoles(kept).map((compound) => serializeSubpath(compound, precision));
+}
+
+// Closes the contour explicitly so vertices[0] === vertices[n]
+function closeContour(sp) {
+  const last = sp.segs[sp.segs.length - 1].to;
+  const segs = last[0] === sp.start[0] && last[1] === sp.start[1] ? sp.segs : [...sp.segs, { to: sp.start }];
+  return { start: sp.start, segs, closed: true };
+}
+
+function reverseContour(sp) {
+  const verts = [sp.start, ...sp.segs.map((s) => s.to)];
+  const segs = [];
+  for (let k = sp.segs.length - 1; k >= 0; k--) {
+    const s = sp.segs[k];
+    segs.push(s.c1 ? { c1: s.c2, c2: s.c1, to: verts[k] } : { to: verts[k] });
+  }
+  return { start: verts[verts.length - 1], segs, closed: true };
+}
+
+function pointInPolygon([px, py], pts) {
+  let inside = false;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const [xi, yi] = pts[i], [xj, yj] = pts[j];
+    if (yi > py !== yj > py && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+// Nesting depth decides the role of each contour: even = filled outer, odd = hole of
+// its smallest enclosing outer. Holes are joined to their outer by a zero-width
+// bridge between the nearest vertices, wound opposite so nonzero fill leaves them empty.
+function bridgeHoles(subpaths) {
+  const contours = subpaths.map((sp) => {
+    const closed = closeContour(sp);
+    const poly = flattenSubpath(closed);
+    return { sp: closed, poly, area: polygonArea(poly), parents: [] };
+  });
+  for (const c of contours) {
+    for (const other of contours) {
+      if (other !== c && Math.abs(other.area) > Math.abs(c.area) && pointInPolygon(c.poly[0], other.poly)) c.parents.push(other);
+    }
+  }
+  const outers = contours.filter((c) => c.parents.length % 2 === 0);
+  for (const o of outers) o.holes = [];
+  for (const c of contours) {
+    if (c.parents.length % 2 === 0) continue;
+    const parent = c.parents.filter((p) => p.parents.length === c.parents.length - 1)
+      .reduce((best, p) => (!best || Math.abs(p.area) < Math.abs(best.area) ? p : best), null);
+    if (parent) parent.holes.push(c);
+  }
+  return outers.map((o) => {
+    let merged = o.sp;
+    // Largest holes first so small ones can bridge onto already-merged edges
+    for (const h of o.holes.sort((a, b) => Math.abs(b.area) - Math.abs(a.area))) {
+      const hole = Math.sign(h.area) === Math.sign(o.area) ? reverseContour(h.sp) : h.sp;
+      merged = bridgeContour(merged, hole);
+    }
+    return merged;
+  });
+}
+
+function bridgeContour(outer, hole) {
+  const ov = [outer.start, ...outer.segs.map((s) => s.to)];
+  const hv = [hole.start, ...hole.segs.map((s) => s.to)];
+  let best = { dist: Infinity, i: 0, j: 0 };
+  for (let i = 0; i < ov.length - 1; i++) {
+    for (let j = 0; j < hv.length - 1; j++) {
+      const dist = (ov[i][0] - hv[j][0]) ** 2 + (ov[i][1] - hv[j][1]) ** 2;
+      if (dist < best.dist) best = { dist, i, j };
+    }
+  }
+  const { i, j } = best;
+  const holeSegs = [...hole.segs.slice(j), ...hole.segs.slice(0, j)];
+  return {
+    start: outer.start,
+    segs: [...outer.segs.slice(0, i), { to: hv[j] }, ...holeSegs, { to: ov[i] }, ...outer.segs.slice(i)],
+    closed: true,
+  };
+}
+
+function pathStats(paths) {
+  let bytes = 0, segments = 0;
+  for (const d of paths) {
+    bytes += Buffer.byteLength(d);
+    segments += (d.match(/[LCHVQSTAZ]/gi) || []).length;
+  }
+  return { paths: paths.length, bytes, segments };
+}
+
+// ---- Upload decoding: sniff the real format, rasterize PDFs, keep SVGs as vectors ----
+
+function detectFormat(buffer) {
+  if (buffer.length < 12) return null;
+  if (buffer[0] === 0x89 && buffer.toString("ascii", 1, 4) === "PNG") return "png";
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return "jpeg";
+  if (buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WEBP") return "webp";
+  if (buffer.toString("ascii", 0, 5) === "%PDF-") return "pdf";
+  const head = buffer.toString("utf8", 0, Math.min(buffer.length, 1024)).replace(/^\uFEFF/, "").trimStart();
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(head)) return "svg";
+  return null;
+}
+
+// Renders the first page of a PDF to PNG; pdf.js is loaded lazily as it's large
+async function rasterizePdf(buffer, maxDim = 1600) {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(buffer), isEvalSupported: false, disableFontFace: true }).promise;
+  try {
+    const page = await doc.getPage(1);
+    const base = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: maxDim / Math.max(base.width, base.height) });
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    await page.render({ canvasContext: canvas.getContext("2d"), viewport }).promise;
+    return canvas.encode("png");
+  } finally { await doc.destroy(); }
+}
+
+// Sniffs the real format (the declared MIME type isn't trusted) and rejects
+// rasters that are unreadable or beyond UPLOAD_LIMITS before any heavy work
+async function decodeUpload(buffer) {
+  const format = detectFormat(buffer);
+  if (!format) throw new ApiError(415, "UNSUPPORTED_FORMAT", "Unsupported file format — use PNG, JPEG, WebP, SVG or PDF");
+  if (format === "svg") return { format, buffer };
+  let decoded = buffer;
+  if (format === "pdf") {
+    try { decoded = await rasterizePdf(buffer); } catch (e) { throw new ApiError(400, "INVALID_IMAGE", "Could not read the PDF", { reason: String(e?.message || e) }); }
+  }
+  let meta;
+  try { meta = await sharp(decoded).metadata(); } catch (e) { throw new ApiError(400, "INVALID_IMAGE", "Could not read the image", { format, reason: String(e?.message || e) }); }
+  const { width = 0, height = 0 } = meta;
+  if (!width || !height) throw new ApiError(400, "INVALID_IMAGE", "Image has no pixel dimensions", { format });
+  if (Math.max(width, height) > UPLOAD_LIMITS.maxDimension || width * height > UPLOAD_LIMITS.maxPixels) {
+    throw new ApiError(413, "IMAGE_TOO_LARGE", "Image dimensions exceed the limit", { width, height, maxDimension: UPLOAD_LIMITS.maxDimension, maxPixels: UPLOAD_LIMITS.maxPixels });
+  }
+  return { format, buffer: decoded };
+}
+
+// ---- SVG uploads: read shapes directly instead of rasterizing and tracing ----
+
+const SVG_SKIP = new Set(["defs", "clipPath", "mask", "symbol", "pattern", "marker", "style", "script", "title", "desc", "metadata", "linearGradient", "radialGradient", "filter"]);
+
+// Names without a value are matched (and skipped) whole, so long runs can't backtrack
+function parseAttrs(str) {
+  const attrs = {};
+  for (const m of str.matchAll(/([\w:-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'))?/g)) {
+    const value = m[2] ?? m[3];
+    if (value !== undefined) attrs[m[1]] = value;
+  }
+  for (const decl of (attrs.style || "").split(";")) {
+    const [k, v] = decl.split(":").map((t) => t && t.trim());
+    if (k && v) attrs[k] = v;
+  }
+  return attrs;
+}
+
+function multiplyMatrix([a1, b1, c1, d1, e1, f1], [a2, b2, c2, d2, e2, f2]) {
+  return [a1 * a2 + c1 * b2, b1 * a2 + d1 * b2, a1 * c2 + c1 * d2, b1 * c2 + d1 * d2, a1 * e2 + c1 * f2 + e1, b1 * e2 + d1 * f2 + f1];
+}
+
+function parseTransform(str = "") {
+  let m = [1, 0, 0, 1, 0, 0];
+  // Bare words are consumed whole and arguments stop at the next "(", so unbalanced input stays linear
+  for (const [, fn, args] of str.matchAll(/(\w+)\s*\(([^()]*)\)|\w+/g)) {
+    if (!fn) continue;
+    const v = args.split(/[\s,]+/).filter(Boolean).map(Number);
+    const rad = ((v[0] || 0) * Math.PI) / 180;
+    let t;
+    switch (fn) {
+      case "matrix": t = v.length === 6 ? v : null; break;
+      case "translate": t = [1, 0, 0, 1, v[0] || 0, v[1] || 0]; break;
+      case "scale": t = [v[0] ?? 1, 0, 0, v[1] ?? v[0] ?? 1, 0, 0]; break;
+      case "rotate": {
+        const [, cx = 0, cy = 0] = v;
+        t = multiplyMatrix(multiplyMatrix([1, 0, 0, 1, cx, cy], [Math.cos(rad), Math.sin(rad), -Math.sin(rad), Math.cos(rad), 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case "skewX": t = [1, 0, Math.tan(rad), 1, 0, 0]; break;
+      case "skewY": t = [1, Math.tan(rad), 0, 1, 0, 0]; break;
+      default: t = null;
+    }
+    if (t) m = multiplyMatrix(m, t);
+  }
+  return m;
+}
+
+function transformSubpath(sp, [a, b, c, d, e, f]) {
+  const tp = ([x, y]) => [a * x + c * y + e, b * x + d * y + f];
+  return { start: tp(sp.start), segs: sp.segs.map((s) => (s.c1 ? { c1: tp(s.c1), c2: tp(s.c2), to: tp(s.to) } : { to: tp(s.to) })), closed: true };
+}
+
+function svgShapeToPathData(tag, a) {
+  const n = (k, def = 0) => { const v = parseFloat(a[k]); return Number.isFinite(v) ? v : def; };
+  switch (tag) {
+    case "path": return a.d || "";
+    case "rect": {
+      const x = n("x"), y = n("y"), w = n("width"), h = n("height");
+      if (w <= 0 || h <= 0) return "";
+      let rx = n("rx", NaN), ry = n("ry", NaN);
+      if (Number.isNaN(rx)) rx = Number.isNaN(ry) ? 0 : ry;
+      if (Number.isNaN(ry)) ry = rx;
+      rx = Math.min(rx, w / 2); ry = Math.min(ry, h / 2);
+      if (!rx || !ry) return `M${x} ${y}H${x + w}V${y + h}H${x}Z`;
+      return `M${x + rx} ${y}H${x + w - rx}A${rx} ${ry} 0 0 1 ${x + w} ${y + ry}V${y + h - ry}A${rx} ${ry} 0 0 1 ${x + w - rx} ${y + h}H${x + rx}A${rx} ${ry} 0 0 1 ${x} ${y + h - ry}V${y + ry}A${rx} ${ry} 0 0 1 ${x + rx} ${y}Z`;
+    }
+    case "circle": case "ellipse": {
+      const cx = n("cx"), cy = n("cy");
+      const rx = tag === "circle" ? n("r") : n("rx"), ry = tag === "circle" ? n("r") : n("ry");
+      if (rx <= 0 || ry <= 0) return "";
+      return `M${cx - rx} ${cy}A${rx} ${ry} 0 1 0 ${cx + rx} ${cy}A${rx} ${ry} 0 1 0 ${cx - rx} ${cy}Z`;
+    }
+    case "polygon": case "polyline": {
+      const pts = (a.points || "").trim().split(/[\s,]+/).map(Number);
+      if (pts.length < 6) return "";
+      return `M${pts.slice(0, 2).join(" ")}L${pts.slice(2).join(" ")}Z`;
+    }
+    default: return "";
+  }
+}
+
+// CSS Color Module named colours (hex without "#"), so fill="red" keeps its colour
+const CSS_NAMED_COLORS = {
+  aliceblue: "f0f8ff", antiquewhite: "faebd7", aqua: "00ffff", aquamarine: "7fffd4", azure: "f0ffff", beige: "f5f5dc", bisque: "ffe4c4", black: "000000",
+  blanchedalmond: "ffebcd", blue: "0000ff", blueviolet: "8a2be2", brown: "a52a2a", burlywood: "deb887", cadetblue: "5f9ea0", chartreuse: "7fff00", chocolate: "d2691e",
+  coral: "ff7f50", cornflowerblue: "6495ed", cornsilk: "fff8dc", crimson: "dc143c", cyan: "00ffff", darkblue: "00008b", darkcyan: "008b8b", darkgoldenrod: "b8860b",
+  darkgray: "a9a9a9", darkgreen: "006400", darkgrey: "a9a9a9", darkkhaki: "bdb76b", darkmagenta: "8b008b", darkolivegreen: "556b2f", darkorange: "ff8c00", darkorchid: "9932cc",
+  darkred: "8b0000", darksalmon: "e9967a", darkseagreen: "8fbc8f", darkslateblue: "483d8b", darkslategray: "2f4f4f", darkslategrey: "2f4f4f", darkturquoise: "00ced1", darkviolet: "9400d3",
+  deeppink: "ff1493", deepskyblue: "00bfff", dimgray: "696969", dimgrey: "696969", dodgerblue: "1e90ff", firebrick: "b22222", floralwhite: "fffaf0", forestgreen: "228b22",
+  fuchsia: "ff00ff", gainsboro: "dcdcdc", ghostwhite: "f8f8ff", gold: "ffd700", goldenrod: "daa520", gray: "808080", green: "008000", greenyellow: "adff2f",
+  grey: "808080", honeydew: "f0fff0", hotpink: "ff69b4", indianred: "cd5c5c", indigo: "4b0082", ivory: "fffff0", khaki: "f0e68c", lavender: "e6e6fa",
+  lavenderblush: "fff0f5", lawngreen: "7cfc00", lemonchiffon: "fffacd", lightblue: "add8e6", lightcoral: "f08080", lightcyan: "e0ffff", lightgoldenrodyellow: "fafad2", lightgray: "d3d3d3",
+  lightgreen: "90ee90", lightgrey: "d3d3d3", lightpink: "ffb6c1", lightsalmon: "ffa07a", lightseagreen: "20b2aa", lightskyblue: "87cefa", lightslategray: "778899", lightslategrey: "778899",
+  lightsteelblue: "b0c4de", lightyellow: "ffffe0", lime: "00ff00", limegreen: "32cd32", linen: "faf0e6", magenta: "ff00ff", maroon: "800000", mediumaquamarine: "66cdaa",
+  mediumblue: "0000cd", mediumorchid: "ba55d3", mediumpurple: "9370db", mediumseagreen: "3cb371", mediumslateblue: "7b68ee", mediumspringgreen: "00fa9a", mediumturquoise: "48d1cc", mediumvioletred: "c71585",
+  midnightblue: "191970", mintcream: "f5fffa", mistyrose: "ffe4e1", moccasin: "ffe4b5", navajowhite: "ffdead", navy: "000080", oldlace: "fdf5e6", olive: "808000",
+  olivedrab: "6b8e23", orange: "ffa500", orangered: "ff4500", orchid: "da70d6", palegoldenrod: "eee8aa", palegreen: "98fb98", paleturquoise: "afeeee", palevioletred: "db7093",
+  papayawhip: "ffefd5", peachpuff: "ffdab9", peru: "cd853f", pink: "ffc0cb", plum: "dda0dd", powderblue: "b0e0e6", purple: "800080", rebeccapurple: "663399",
+  red: "ff0000", rosybrown: "bc8f8f", royalblue: "4169e1", saddlebrown: "8b4513", salmon: "fa8072", sandybrown: "f4a460", seagreen: "2e8b57", seashell: "fff5ee",
+  sienna: "a0522d", silver: "c0c0c0", skyblue: "87ceeb", slateblue: "6a5acd", slategray: "708090", slategrey: "708090", snow: "fffafa", springgreen: "00ff7f",
+  steelblue: "4682b4", tan: "d2b48c", teal: "008080", thistle: "d8bfd8", tomato: "ff6347", turquoise: "40e0d0", violet: "ee82ee", wheat: "f5deb3",
+  white: "ffffff", whitesmoke: "f5f5f5", yellow: "ffff00", yellowgreen: "9acd32",
+};
+
+function normalizeFill(fill) {
+  if (!fill || fill === "currentColor") return "#000000";
+  const hex = fill.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) return "#" + (hex[1].length === 3 ? hex[1].split("").map((c) => c + c).join("") : hex[1]).toUpperCase();
+  const rgb = fill.match(/^rgb\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)\s*\)$/i);
+  if (rgb) return toHex(+rgb[1], +rgb[2], +rgb[3]);
+  const named = CSS_NAMED_COLORS[fill.trim().toLowerCase()];
+  if (named) return "#" + named.toUpperCase();
+  // Gradients, patterns and unknown keywords have no single colour; they fall back to black
+  return "#000000";
+}
+
+// Single forward pass over the markup: every character is read once, so hostile input
+// (unterminated tags, quotes or comments) can't cause regex backtracking. Comments, CDATA,
+// doctypes and processing instructions are skipped; an unterminated construct ends the scan.
+function* scanSvgTags(svg) {
+  let i = 0;
+  while ((i = svg.indexOf("<", i)) !== -1) {
+    const skipTo = svg.startsWith("<!--", i) ? "-->" : svg.startsWith("<![CDATA[", i) ? "]]>" : svg[i + 1] === "!" || svg[i + 1] === "?" ? ">" : null;
+    if (skipTo) {
+      const end = svg.indexOf(skipTo, i + 2);
+      if (end === -1) return;
+      i = end + skipTo.length;
+      continue;
+    }
+    const closing = svg[i + 1] === "/";
+    let j = closing ? i + 2 : i + 1;
+    const nameStart = j;
+    while (j < svg.length && /[\w:-]/.test(svg[j])) j++;
+    if (j === nameStart) { i++; continue; }
+    const tag = svg.slice(nameStart, j), attrStart = j;
+    while (j < svg.length && svg[j] !== ">") {
+      if (svg[j] === '"' || svg[j] === "'") {
+        const close = svg.indexOf(svg[j], j + 1);
+        if (close === -1) return;
+        j = close;
+      }
+      j++;
+    }
+    if (j >= svg.length) return;
+    const selfClosing = j > attrStart && svg[j - 1] === "/";
+    yield { tag, closing, selfClosing, attrStr: svg.slice(attrStart, selfClosing ? j - 1 : j) };
+    i = j + 1;
+  }
+}
+
+// Walks the SVG's elements, flattening group transforms and inherited fills; each
+// filled element becomes one or more frame paths in the document's own viewBox.
+function svgToFrame(buffer, opts = {}) {
+  const svg = buffer.toString("utf8");
+  const stack = [{ matrix: [1, 0, 0, 1, 0, 0], fill: undefined, skip: false }];
+  const byColor = new Map();
+  let viewBox = null, total = 0;
+  for (const { tag, closing, selfClosing, attrStr } of scanSvgTags(svg)) {
+    if (closing) { if (stack.length > 1) stack.pop(); continue; }
+    const parent = stack[stack.length - 1];
+    const a = parseAttrs(attrStr);
+    const state = {
+      matrix: multiplyMatrix(parent.matrix, parseTransform(a.transform)),
+      fill: a.fill ?? parent.fill,
+      skip: parent.skip || SVG_SKIP.has(tag) || a.display === "none" || a.visibility === "hidden",
+    };
+    if (tag === "svg" && !viewBox) {
+      const vb = (a.viewBox || "").split(/[\s,]+/).map(Number);
+      if (vb.length === 4 && vb.every(Number.isFinite)) viewBox = { left: vb[0], top: vb[1], width: vb[2], height: vb[3] };
+      else if (parseFloat(a.width) > 0 && parseFloat(a.height) > 0) viewBox = { left: 0, top: 0, width: parseFloat(a.width), height: parseFloat(a.height) };
+    }
+    if (!selfClosing) stack.push(state);
+    if (state.skip || state.fill === "none" || total >= 300) continue;
+    const d = svgShapeToPathData(tag, a);
+    if (!d) continue;
+    const subpaths = parsePath(d).map((sp) => transformSubpath(sp, state.matrix));
+    const paths = simplifySubpaths(subpaths, opts).slice(0, 300 - total);
+    if (!paths.length) continue;
+    const color = normalizeFill(state.fill);
+    byColor.set(color, [...(byColor.get(color) || []), ...paths]);
+    total += paths.length;
+  }
+  const layers = mergeClosestLayers([...byColor].map(([color, paths]) => ({ color, paths })), MAX_POSTER_LAYERS);
+  const paths = layers.flatMap((l) => l.paths);
+  const result = { paths, viewBox: viewBox || { left: 0, top: 0, width: 1000, height: 1000 }, stats: pathStats(paths), source: "svg" };
+  return opts.mode === "posterize" ? { mode: "posterize", layers, ...result } : result;
+}
+
+function sendSvgFrame(res, buffer, opts) {
+  const result = svgToFrame(buffer, opts);
+  if (!result.paths.length) throw new ApiError(422, "NO_PATHS", "No filled shapes found in SVG");
+  res.json(result);
 }
 
-function extractPaths(svg, limit = 300) {
+function extractPaths(svg, limit = 300, opts = {}) {
   const viewBox = extractViewBox(svg);
   const paths = [];
   const matches = svg.matchAll(/<path[^>]*d="([^"]+)"/g);
   for (const m of matches) {
-    const subPaths = splitToSingleMovePaths(m[1].trim());
+    const subPaths = simplifyPaths([m[1].trim()], opts);
     for (const sp of subPaths) {
       paths.push(sp);
       if (paths.length >= limit) break;
     }
     if (paths.length >= limit) break;
   }
-  return { paths, viewBox };
+  return { paths, viewBox, stats: pathStats(paths) };
+}
+
+function toHex(r, g, b) {
+  return "#" + [r, g, b].map((v) => v.toString(16).padStart(2, "0")).join("").toUpperCase();
+}
+
+// Posterize: quantize to N colors, trace each color as its own layer.
+// The color touching most of the border is treated as background and dropped.
+// Canva allows at most 6 unique fills per shape; with the background dropped,
+// 7 quantized colors leave at most 6 layers, so 7 is the ceiling.
+const POSTER_COLORS = { min: 2, max: 7, default: 4 };
+const clampPosterColors = (colors) => Math.min(POSTER_COLORS.max, Math.max(POSTER_COLORS.min, Math.round(Number(colors) || POSTER_COLORS.default)));
+
+// SVG fills aren't quantized, so their layers get the same cap: the two closest colors
+// merge (the smaller layer takes the larger one's color) until at most 6 remain
+const MAX_POSTER_LAYERS = POSTER_COLORS.max - 1;
+function mergeClosestLayers(layers, max) {
+  const rgb = (hex) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  const merged = layers.map((l) => ({ ...l, paths: [...l.paths] }));
+  while (merged.length > max) {
+    let best = null;
+    for (let i = 0; i < merged.length; i++) {
+      for (let j = i + 1; j < merged.length; j++) {
+        const [a, b] = [rgb(merged[i].color), rgb(merged[j].color)];
+        const dist = (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+        if (!best || dist < best.dist) best = { dist, i, j };
+      }
+    }
+    const [keep, drop] = merged[best.i].paths.length >= merged[best.j].paths.length ? [best.i, best.j] : [best.j, best.i];
+    merged[keep].paths.push(...merged[drop].paths);
+    merged.splice(drop, 1);
+  }
+  return merged;
+}
+
+async function posterizeImage(buffer, opts = {}) {
+  const colors = clampPosterColors(opts.colors);
+  const metadata = await sharp(buffer).metadata();
+  const maxDim = Math.min(1200, Math.max(metadata.width || 800, metadata.height || 800));
+  const quantized = await sharp(buffer)
+    .ensureAlpha()
+    .flatten({ background: { r: 255, g: 255, b: 255 } })
+    .resize({ width: maxDim, height: maxDim, fit: "inside", withoutEnlargement: true })
+    .png({ palette: true, colours: colors, dither: 0 }).toBuffer();
+  const { data, info } = await sharp(quantized).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+
+  const counts = new Map();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * channels;
+      const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+      const entry = counts.get(key) || { key, pixels: 0, border: 0 };
+      entry.pixels++;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) entry.border++;
+      counts.set(key, entry);
+    }
+  }
+  const entries = [...counts.values()].sort((a, b) => b.pixels - a.pixels);
+  const background = entries.reduce((best, e) => (e.border > best.border ? e : best), entries[0]);
+
+  const layers = [];
+  let total = 0;
+  for (const entry of entries) {
+    if (entry === background && entries.length > 1) continue;
+    const mask = Buffer.alloc(width * height, 255);
+    for (let p = 0; p < width * height; p++) {
+      const i = p * channels;
+      if (((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]) === entry.key) mask[p] = 0;
+    }
+    const png = await sharp(mask, { raw: { width, height, channels: 1 } }).png().toBuffer();
+    const svg = await traceSvg(png, { ...opts, threshold: 128 });
+    const { paths } = extractPaths(svg, 300 - total, opts);
+    if (!paths.length) continue;
+    total += paths.length;
+    layers.push({ color: toHex(entry.key >> 16, (entry.key >> 8) & 255, entry.key & 255), paths });
+    if (total >= 300) break;
+  }
+  const paths = layers.flatMap((l) => l.paths);
+  return {
+    mode: "posterize",
+    layers,
+    paths,
+    viewBox: { left: 0, top: 0, width, height },
+    stats: pathStats(paths),
+  };
+}
+
+// ---- Foreground segmentation for photos (GrabCut-style, no model download) ----
+// A band along the top, left and right edges seeds the background color model and
+// the rest the foreground (subjects are often cut off by the bottom edge); Gaussian
+// mixtures are refit for a few rounds while an ICM pass with contrast-sensitive
+// smoothing relabels pixels. Runs on a downscaled copy.
+
+const SEGMENT_SIZE = 320;
+const GMM_COMPONENTS = 5;
+const CENTER_PRIOR = 3;
+
+function fitGmm(data, indices, k = GMM_COMPONENTS) {
+  if (!indices.length) return [];
+  // k-means++ seeding on a sample, then a few Lloyd iterations
+  const sample = indices.length > 4000 ? indices.filter((_, n) => n % Math.ceil(indices.length / 4000) === 0) : indices;
+  const px = (i) => [data[i * 3], data[i * 3 + 1], data[i * 3 + 2]];
+  const dist2 = (a, b) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+  const centers = [px(sample[Math.floor(sample.length / 2)])];
+  while (centers.length < Math.min(k, sample.length)) {
+    let best = sample[0], bestD = -1;
+    for (const i of sample) {
+      const d = Math.min(...centers.map((c) => dist2(px(i), c)));
+      if (d > bestD) { bestD = d; best = i; }
+    }
+    if (bestD <= 0) break;
+    centers.push(px(best));
+  }
+  const assign = new Int32Array(indices.length);
+  for (let iter = 0; iter < 5; iter++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    indices.forEach((i, n) => {
+      const p = px(i);
+      let c = 0, cd = Infinity;
+      centers.forEach((ctr, j) => { const d = dist2(p, ctr); if (d < cd) { cd = d; c = j; } });
+      assign[n] = c;
+      sums[c][0] += p[0]; sums[c][1] += p[1]; sums[c][2] += p[2]; sums[c][3]++;
+    });
+    sums.forEach((s, j) => { if (s[3]) centers[j] = [s[0] / s[3], s[1] / s[3], s[2] / s[3]]; });
+  }
+  const comps = centers.map((mean) => ({ mean, varSum: [0, 0, 0], count: 0 }));
+  indices.forEach((i, n) => {
+    const c = comps[assign[n]], p = px(i);
+    for (let ch = 0; ch < 3; ch++) c.varSum[ch] += (p[ch] - c.mean[ch]) ** 2;
+    c.count++;
+  });
+  return comps.filter((c) => c.count > 0).map((c) => {
+    const variance = c.varSum.map((v) => v / c.count + 25);
+    return {
+      mean: c.mean,
+      variance,
+      logWeight: Math.log(c.count / indices.length) - 0.5 * variance.reduce((acc, v) => acc + Math.log(2 * Math.PI * v), 0),
+    };
+  });
+}
+
+function gmmNegLogLikelihood(gmm, r, g, b) {
+  let max = -Infinity;
+  const terms = gmm.map((c) => {
+    const t = c.logWeight - 0.5 * ((r - c.mean[0]) ** 2 / c.variance[0] + (g - c.mean[1]) ** 2 / c.variance[1] + (b - c.mean[2]) ** 2 / c.variance[2]);
+    if (t > max) max = t;
+    return t;
+  });
+  return -(max + Math.log(terms.reduce((acc, t) => acc + Math.exp(t - max), 0)));
+}
+
+// Closes one-pixel seams (mixed colors along sharp edges), keeps the largest
+// 4-connected foreground region and fills holes smaller than minHole pixels
+function cleanMask(mask, width, height, minHole) {
+  mask = mask.map((v, p) => {
+    if (v) return 1;
+    const x = p % width;
+    return (x > 0 && x < width - 1 && mask[p - 1] && mask[p + 1]) || (p >= width && p + width < mask.length && mask[p - width] && mask[p + width]) ? 1 : 0;
+  });
+  const label = (grid, value) => {
+    const comp = new Int32Array(width * height).fill(-1);
+    const sizes = [], touchesBorder = [];
+    for (let start = 0; start < grid.length; start++) {
+      if (grid[start] !== value || comp[start] !== -1) continue;
+      const id = sizes.length, queue = [start];
+      comp[start] = id; sizes.push(0); touchesBorder.push(false);
+      while (queue.length) {
+        const p = queue.pop(), x = p % width, y = (p - x) / width;
+        sizes[id]++;
+        if (x === 0 || y === 0 || x === width - 1 || y === height - 1) touchesBorder[id] = true;
+        for (const q of [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, y > 0 ? p - width : -1, y < height - 1 ? p + width : -1]) {
+          if (q >= 0 && grid[q] === value && comp[q] === -1) { comp[q] = id; queue.push(q); }
+        }
+      }
+    }
+    return { comp, sizes, touchesBorder };
+  };
+  const fg = label(mask, 1);
+  if (!fg.sizes.length) return mask;
+  const keep = fg.sizes.indexOf(Math.max(...fg.sizes));
+  const out = new Uint8Array(mask.length);
+  for (let p = 0; p < mask.length; p++) out[p] = fg.comp[p] === keep ? 1 : 0;
+  // Holes are judged on the kept region alone, so dropped islands count as background
+  const bg = label(out, 0);
+  for (let p = 0; p < out.length; p++) {
+    const id = bg.comp[p];
+    if (id >= 0 && !bg.touchesBorder[id] && bg.sizes[id] < minHole) out[p] = 1;
+  }
+  return out;
+}
+
+async function segmentForeground(buffer, { iterations = 4, smoothness = 2 } = {}) {
+  const { data, info } = await sharp(buffer)
+    .flatten({ background: { r: 255, g: 255, b: 255 } })
+    .resize({ width: SEGMENT_SIZE, height: SEGMENT_SIZE, fit: "inside" })
+    .removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const { width, height } = info, n = width * height;
+  const mx = Math.max(2, Math.round(width * 0.05)), my = Math.max(2, Math.round(height * 0.05));
+  const fixedBg = new Uint8Array(n);
+  const mask = new Uint8Array(n);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (x === 0 || y === 0 || x === width - 1) fixedBg[p] = 1;
+      if (!(x < mx || y < my || x >= width - mx)) mask[p] = 1;
+    }
+  }
+
+  // Contrast-sensitive neighbor weights (right and down); gamma from mean color difference
+  const diff = (p, q) => (data[p * 3] - data[q * 3]) ** 2 + (data[p * 3 + 1] - data[q * 3 + 1]) ** 2 + (data[p * 3 + 2] - data[q * 3 + 2]) ** 2;
+  let total = 0, count = 0;
+  for (let p = 0; p < n; p++) {
+    if (p % width < width - 1) { total += diff(p, p + 1); count++; }
+    if (p + width < n) { total += diff(p, p + width); count++; }
+  }
+  const gamma = 1 / (2 * (total / count || 1));
+  const wRight = new Float32Array(n), wDown = new Float32Array(n);
+  for (let p = 0; p < n; p++) {
+    if (p % width < width - 1) wRight[p] = smoothness * Math.exp(-gamma * diff(p, p + 1));
+    if (p + width < n) wDown[p] = smoothness * Math.exp(-gamma * diff(p, p + width));
+  }
+
+  const costFg = new Float32Array(n), costBg = new Float32Array(n);
+  for (let iter = 0; iter < iterations; iter++) {
+    const fgIdx = [], bgIdx = [];
+    for (let p = 0; p < n; p++) (mask[p] ? fgIdx : bgIdx).push(p);
+    if (!fgIdx.length || !bgIdx.length) break;
+    const fgModel = fitGmm(data, fgIdx), bgModel = fitGmm(data, bgIdx);
+    for (let p = 0; p < n; p++) {
+      if (fixedBg[p]) continue;
+      // Subjects are usually centered: a mild prior raises the foreground cost toward the edges
+      const dx = (p % width) / width - 0.5, dy = Math.floor(p / width) / height - 0.5;
+      costFg[p] = gmmNegLogLikelihood(fgModel, data[p * 3], data[p * 3 + 1], data[p * 3 + 2]) + CENTER_PRIOR * 4 * (dx * dx + dy * dy);
+      costBg[p] = gmmNegLogLikelihood(bgModel, data[p * 3], data[p * 3 + 1], data[p * 3 + 2]);
+    }
+    // Relabel from the data term, then iterated conditional modes adds a penalty for
+    // disagreeing with similar neighbors
+    for (let p = 0; p < n; p++) if (!fixedBg[p]) mask[p] = costFg[p] < costBg[p] ? 1 : 0;
+    for (let sweep = 0; sweep < 3; sweep++) {
+      for (let p = 0; p < n; p++) {
+        if (fixedBg[p]) continue;
+        let eFg = costFg[p], eBg = costBg[p];
+        const x = p % width;
+        const neighbors = [[x > 0 ? p - 1 : -1, x > 0 ? wRight[p - 1] : 0], [x < width - 1 ? p + 1 : -1, wRight[p]], [p >= width ? p - width : -1, p >= width ? wDown[p - width] : 0], [p + width < n ? p + width : -1, wDown[p]]];
+        for (const [q, w] of neighbors) {
+          if (q < 0) continue;
+          if (mask[q]) eBg += w; else eFg += w;
+        }
+        mask[p] = eFg < eBg ? 1 : 0;
+      }
+    }
+  }
+  return { mask: cleanMask(mask, width, height, n * 0.01), width, height };
+}
+
+// Standard normal CDF (Abramowitz–Stegun erf approximation)
+function normalCdf(z) {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// sharp runs threshold before blur within one pipeline, so blur is materialized first
+async function blurThreshold(img, sigma, level) {
+  const blurred = await sharp(img).blur(sigma).toColourspace("b-w").raw().toBuffer({ resolveWithObject: true });
+  return sharp(blurred.data, { raw: blurred.info }).threshold(level).png().toBuffer();
+}
+
+// Moves a black-on-white mask edge by dilate px (negative erodes) by blurring and
+// re-thresholding, then feathers (px) the contour before the final threshold
+async function shapeMask(img, { dilate = 0, feather = 0 } = {}) {
+  if (dilate !== 0) {
+    const sigma = Math.max(0.5, Math.abs(dilate) / 2);
+    // The blurred edge crosses this level `dilate` pixels outside the original edge
+    const level = Math.round(255 * normalCdf(dilate / sigma));
+    img = await blurThreshold(img, sigma, Math.min(254, Math.max(1, level)));
+  }
+  if (feather > 0) img = await blurThreshold(img, Math.max(0.3, feather), 128);
+  return img;
+}
+
+// Upscales a segmentation to the source size as black-on-white for potrace
+async function renderMask({ mask, width, height }, targetWidth, targetHeight, opts = {}) {
+  const raw = Buffer.alloc(width * height);
+  for (let p = 0; p < raw.length; p++) raw[p] = mask[p] ? 0 : 255;
+  const img = await sharp(raw, { raw: { width, height, channels: 1 } })
+    .resize({ width: targetWidth, height: targetHeight, fit: "fill", kernel: "linear" })
+    .threshold(128).png().toBuffer();
+  return shapeMask(img, opts);
+}
+
+// Any supported upload: SVGs are read as vectors, everything else is traced
+async function processUpload(buffer, opts = {}) {
+  const input = await decodeUpload(buffer);
+  return input.format === "svg" ? svgToFrame(input.buffer, opts) : processImage(input.buffer, opts);
 }
 
-async function processImage(buffer, opts = {}) {
+// Cached by image bytes; mode/colors only count toward the key when posterizing
+function processImage(buffer, opts = {}) {
+  const { mode, colors, ...traceOpts } = opts;
+  const keyOpts = mode === "posterize" ? { ...traceOpts, mode, colors: clampPosterColors(colors) } : traceOpts;
+  return cachedResult("image", buffer, keyOpts, () => traceImage(buffer, opts));
+}
+
+async function traceImage(buffer, opts = {}) {
+  if (opts.mode === "posterize") return posterizeImage(buffer, opts);
   const metadata = await sharp(buffer).metadata();
   const maxDim = Math.max(metadata.width || 800, metadata.height || 800);
   const pre = await sharp(buffer)
     .ensureAlpha()
     .flatten({ background: { r: 255, g: 255, b: 255 } })
     .resize({ width: maxDim, height: maxDim, fit: "inside", withoutEnlargement: true })
-    .grayscale().normalise().threshold(opts.threshold || 160).png().toBuffer();
+    .grayscale().normalise().threshold(opts.threshold ?? 160).png().toBuffer();
   const svg = await traceSvg(pre, opts);
-  return extractPaths(svg);
+  return extractPaths(svg, 300, opts);
 }
 
 app.post("/vectorize", upload.single("file"), async (req, res) => {
   try {
-    if (!req.file) return res.status(400).json({ error: "No file uploaded" });
-    const result = await processImage(req.file.buffer);
-    if (!result.paths.length) return res.status(500).json({ error: "No path found" });
+    if (!req.file) throw new ApiError(400, "NO_FILE", "No file uploaded");
+    const opts = parseTraceOptions(req.body);
+    const { mode, colors } = req.body;
+    const result = await processUpload(req.file.buffer, { ...opts, mode, colors });
+    if (!result.paths.length) throw new ApiError(422, "NO_PATHS", "No path found");
     res.json(result);
-  } catch (e) { res.status(500).json({ error: String(e) }); }
+  } catch (e) { sendError(res, e); }
 });
 
-app.post("/vectorize-batch", upload.array("files", 20), async (req, res) => {
+// Quick low-res trace for the live preview; doesn't count as a conversion
+const PREVIEW_SIZE = 240;
+app.post("/vectorize/preview", upload.single("file"), async (req, res) => {
   try {
-    if (!req.files || !req.files.length) return res.status(400).json({ error: "No files" });
-    const results = [];
-    for (const file of req.files) {
-      try { const r = await processImage(file.buffer); results.push({ name: file.originalname, ...r }); }
-      catch (e) { results.push({ name: file.originalname, error: String(e) }); }
+    if (!req.file) throw new ApiError(400, "NO_FILE", "No file uploaded");
+    const opts = parseTraceOptions(req.body);
+    const { mode, colors } = req.body;
+    const input = await decodeUpload(req.file.buffer);
+    if (input.format === "svg") return res.json({ ...svgToFrame(input.buffer, { ...opts, mode }), preview: true });
+    const metadata = await sharp(input.buffer).metadata();
+    const scale = Math.min(1, PREVIEW_SIZE / Math.max(metadata.width || PREVIEW_SIZE, metadata.height || PREVIEW_SIZE));
+    const small = await sharp(input.buffer)
+      .resize({ width: PREVIEW_SIZE, height: PREVIEW_SIZE, fit: "inside", withoutEnlargement: true })
+      .png().toBuffer();
+    // turdSize is an area in pixels, so shrink it along with the image
+    const turdSize = Math.round((opts.turdSize ?? 20) * scale * scale);
+    const result = await processImage(small, { ...opts, turdSize, mode, colors });
+    res.json({ ...result, preview: true });
+  } catch (e) { sendError(res, e); }
+});
+
+// ---- Batch jobs: bounded worker pool, progress streamed over SSE (or polled) ----
+
+const BATCH_CONCURRENCY = 2;
+// Finished jobs only linger for polling clients and retries; fully successful ones hold no uploads and go sooner
+const BATCH_JOB_TTL = { done: 60 * 1000, failed: 5 * 60 * 1000 };
+// Caps on jobs converting at once and on jobs kept in memory (running or awaiting expiry), across all clients
+const BATCH_MAX_RUNNING = 4;
+const BATCH_MAX_JOBS = 16;
+const batchJobs = new Map();
+
+function batchItemEvent(item) {
+  return { index: item.index, name: item.name, status: item.status, ...(item.error ? { error: item.error } : {}), ...(item.result || {}) };
+}
+
+function batchJobState(job) {
+  const finished = job.items.filter((i) => i.status === "done" || i.status === "error").length;
+  return { jobId: job.id, total: job.items.length, finished, failed: job.items.filter((i) => i.status === "error").length, running: finished < job.items.length };
+}
+
+// A retry restarts a job that is already kept, so only new jobs count against BATCH_MAX_JOBS
+function assertBatchCapacity({ newJob }) {
+  const running = [...batchJobs.values()].filter((j) => batchJobState(j).running).length;
+  if (running >= BATCH_MAX_RUNNING || (newJob && batchJobs.size >= BATCH_MAX_JOBS)) {
+    throw new ApiError(429, "TOO_MANY_JOBS", "Too many batch jobs on the server — try again shortly", { running, maxRunning: BATCH_MAX_RUNNING, jobs: batchJobs.size, maxJobs: BATCH_MAX_JOBS });
+  }
+}
+
+function emitBatch(job, event, data) {
+  for (const res of job.listeners) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Runs the queued items with at most BATCH_CONCURRENCY in flight. A finished item drops its
+// upload; failed items keep theirs for retries until the job expires after it last finished
+async function runBatchJob(job) {
+  clearTimeout(job.expiry);
+  const queue = job.items.filter((i) => i.status === "queued");
+  const worker = async () => {
+    for (let item = queue.shift(); item; item = queue.shift()) {
+      item.status = "processing";
+      emitBatch(job, "item", batchItemEvent(item));
+      try {
+        const result = await processUpload(item.buffer, job.opts);
+        if (!result.paths.length) throw new ApiError(422, "NO_PATHS", "No path found");
+        Object.assign(item, { status: "done", result, error: undefined, buffer: undefined });
+      } catch (e) { Object.assign(item, { status: "error", error: toErrorResponse(e).body }); }
+      emitBatch(job, "item", batchItemEvent(item));
     }
-    res.json({ results });
-  } catch (e) { res.status(500).json({ error: String(e) }); }
+  };
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, queue.length) }, worker));
+  // Items re-queued by a retry while the pool was busy get another pass
+  if (job.items.some((i) => i.status === "queued")) return runBatchJob(job);
+  emitBatch(job, "done", batchJobState(job));
+  for (const res of job.listeners) res.end();
+  job.listeners.clear();
+  const ttl = job.items.some((i) => i.status === "error") ? BATCH_JOB_TTL.failed : BATCH_JOB_TTL.done;
+  job.expiry = setTimeout(() => batchJobs.delete(job.id), ttl);
+}
+
+app.post("/vectorize-batch", upload.array("files", 20), async (req, res) => {
+  try {
+    if (!req.files || !req.files.length) throw new ApiError(400, "NO_FILE", "No files uploaded");
+    const opts = parseTraceOptions(req.body);
+    assertBatchCapacity({ newJob: true });
+    const job = {
+      id: randomUUID(), opts, listeners: new Set(),
+      items: req.files.map((file, index) => ({ index, name: file.originalname, buffer: file.buffer, status: "queued" })),
+    };
+    batchJobs.set(job.id, job);
+    runBatchJob(job);
+    res.status(202).json({ ...batchJobState(job), items: job.items.map(batchItemEvent) });
+  } catch (e) { sendError(res, e); }
+});
+
+// Polling fallback: full job state including results of finished items
+app.get("/vectorize-batch/:id", (req, res) => {
+  const job = batchJobs.get(req.params.id);
+  if (!job) return sendError(res, new ApiError(404, "JOB_NOT_FOUND", "Batch job not found or expired"));
+  res.json({ ...batchJobState(job), items: job.items.map(batchItemEvent) });
+});
+
+// Replays every item's current state, then streams updates until the job finishes
+app.get("/vectorize-batch/:id/events", (req, res) => {
+  const job = batchJobs.get(req.params.id);
+  if (!job) return sendError(res, new ApiError(404, "JOB_NOT_FOUND", "Batch job not found or expired"));
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+  for (const item of job.items) res.write(`event: item\ndata: ${JSON.stringify(batchItemEvent(item))}\n\n`);
+  const state = batchJobState(job);
+  if (!state.running) { res.write(`event: done\ndata: ${JSON.stringify(state)}\n\n`); return res.end(); }
+  job.listeners.add(res);
+  req.on("close", () => job.listeners.delete(res));
+});
+
+// Re-queues failed items (all, or the given indices) on the same job
+app.post("/vectorize-batch/:id/retry", (req, res) => {
+  const job = batchJobs.get(req.params.id);
+  if (!job) return sendError(res, new ApiError(404, "JOB_NOT_FOUND", "Batch job not found or expired"));
+  const indices = Array.isArray(req.body?.indices) ? new Set(req.body.indices.map(Number)) : null;
+  const retried = job.items.filter((i) => i.status === "error" && (!indices || indices.has(i.index)));
+  if (!retried.length) return sendError(res, new ApiError(409, "NOTHING_TO_RETRY", "No failed items to retry"));
+  const wasRunning = batchJobState(job).running;
+  if (!wasRunning) {
+    try { assertBatchCapacity({ newJob: false }); } catch (e) { return sendError(res, e); }
+  }
+  for (const item of retried) Object.assign(item, { status: "queued", error: undefined });
+  if (!wasRunning) runBatchJob(job);
+  res.json({ ...batchJobState(job), items: job.items.map(batchItemEvent) });
 });
 
 app.post("/smart-crop", upload.single("file"), async (req, res) => {
   try {
-    if (!req.file) return res.status(400).json({ error: "No file uploaded" });
-    const trimmed = await sharp(req.file.buffer).trim().toBuffer({ resolveWithObject: true });
-    const result = await processImage(trimmed.data);
-    if (!result.paths.length) return res.status(500).json({ error: "No path found" });
+    if (!req.file) throw new ApiError(400, "NO_FILE", "No file uploaded");
+    const opts = parseTraceOptions(req.body);
+    const input = await decodeUpload(req.file.buffer);
+    if (input.format === "svg") return sendSvgFrame(res, input.buffer, opts);
+    const trimmed = await sharp(input.buffer).trim().toBuffer({ resolveWithObject: true });
+    const result = await processImage(trimmed.data, opts);
+    if (!result.paths.length) throw new ApiError(422, "NO_PATHS", "No path found");
     res.json({ ...result, cropInfo: trimmed.info });
-  } catch (e) { res.status(500).json({ error: String(e) }); }
+  } catch (e) { sendError(res, e); }
 });
 
 app.post("/remove-bg", upload.single("file"), async (req, res) => {
   try {
-    if (!req.file) return res.status(400).json({ error: "No file uploaded" });
-    const metadata = await sharp(req.file.buffer).metadata();
-    let processed;
-    if (metadata.hasAlpha) {
-      processed = await sharp(req.file.buffer).ensureAlpha().extractChannel(3).threshold(128).png().toBuffer();
-    } else {
-      processed = await sharp(req.file.buffer).grayscale().normalise().threshold(200).negate().png().toBuffer();
-    }
-    const svg = await traceSvg(processed, { threshold: 128, turdSize: 15 });
-    const result = extractPaths(svg);
-    if (!result.paths.length) return res.status(500).json({ error: "No path found" });
+    if (!req.file) throw new ApiError(400, "NO_FILE", "No file uploaded");
+    const opts = parseTraceOptions(req.body, { threshold: 128, turdSize: 15 }, { ...TRACE_PARAMS, ...SEGMENT_PARAMS });
+    const input = await decodeUpload(req.file.buffer);
+    if (input.format === "svg") return sendSvgFrame(res, input.buffer, opts);
+    const { width, height, channels } = await sharp(input.buffer).metadata();
+    // Images with real transparency already carry their mask; photos are segmented
+    const alphaMin = channels === 4 || channels === 2 ? (await sharp(input.buffer).stats()).channels[channels - 1].min : 255;
+    const processed = alphaMin < 255
+      ? await shapeMask(await sharp(input.buffer).extractChannel(channels - 1).threshold(opts.threshold).negate().png().toBuffer(), opts)
+      : await renderMask(await segmentForeground(input.buffer), width, height, opts);
+    const svg = await traceSvg(processed, opts);
+    const result = extractPaths(svg, 300, opts);
+    if (!result.paths.length) throw new ApiError(422, "NO_PATHS", "No path found");
     res.json(result);
-  } catch (e) { res.status(500).json({ error: String(e) }); }
+  } catch (e) { sendError(res, e); }
 });
 
-// Real distinct fonts using system fonts
+// ---- Fonts: bundled @fontsource families, laid out and outlined with fontkit ----
+// Each id keeps a latin-ext fallback for characters the latin subset lacks.
+
+const requireAsset = createRequire(import.meta.url);
+const fontFiles = (pkg, weight) => ["latin", "latin-ext"].map((subset) => `@fontsource/${pkg}/files/${pkg}-${subset}-${weight}-normal.woff`);
 const FONTS = {
-  "sans-bold":    { family: "Liberation Sans, DejaVu Sans, FreeSans, sans-serif", weight: "bold" },
-  "serif-bold":   { family: "Liberation Serif, DejaVu Serif, FreeSerif, serif", weight: "bold" },
-  "mono-bold":    { family: "Liberation Mono, DejaVu Sans Mono, FreeMono, monospace", weight: "bold" },
-  "sans-black":   { family: "Liberation Sans, DejaVu Sans, sans-serif", weight: "900" },
-  "sans-thin":    { family: "Liberation Sans, DejaVu Sans, sans-serif", weight: "100" },
-  "sans-light":   { family: "Liberation Sans, DejaVu Sans, sans-serif", weight: "300" },
-  "serif-normal": { family: "Liberation Serif, DejaVu Serif, serif", weight: "normal" },
-  "mono-normal":  { family: "Liberation Mono, DejaVu Sans Mono, monospace", weight: "normal" },
-  "noto-bold":    { family: "Noto Sans, DejaVu Sans, sans-serif", weight: "bold" },
-  "noto-black":   { family: "Noto Sans, DejaVu Sans, sans-serif", weight: "900" },
+  "sans-bold":    { name: "Sans Bold", family: "Inter", weight: 700, files: fontFiles("inter", 700) },
+  "serif-bold":   { name: "Serif Bold", family: "Noto Serif", weight: 700, files: fontFiles("noto-serif", 700) },
+  "mono-bold":    { name: "Mono Bold", family: "Roboto Mono", weight: 700, files: fontFiles("roboto-mono", 700) },
+  "sans-black":   { name: "Sans Black", family: "Inter", weight: 900, files: fontFiles("inter", 900) },
+  "sans-thin":    { name: "Sans Thin", family: "Inter", weight: 100, files: fontFiles("inter", 100) },
+  "sans-light":   { name: "Sans Light", family: "Inter", weight: 300, files: fontFiles("inter", 300) },
+  "serif-normal": { name: "Serif Regular", family: "Noto Serif", weight: 400, files: fontFiles("noto-serif", 400) },
+  "mono-normal":  { name: "Mono Regular", family: "Roboto Mono", weight: 400, files: fontFiles("roboto-mono", 400) },
+  "noto-bold":    { name: "Noto Bold", family: "Noto Sans", weight: 700, files: fontFiles("noto-sans", 700) },
+  "noto-black":   { name: "Noto Black", family: "Noto Sans", weight: 900, files: fontFiles("noto-sans", 900) },
+  "display":      { name: "Display", family: "Bebas Neue", weight: 400, files: fontFiles("bebas-neue", 400) },
+  "script":       { name: "Script", family: "Pacifico", weight: 400, files: fontFiles("pacifico", 400) },
 };
 
-async function renderTextToPng(text, fontSize, fontKey) {
-  const font = FONTS[fontKey] || FONTS["sans-bold"];
-  const escaped = text
-    .replace(/&/g, '&amp;').replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+const loadedFonts = new Map();
+function loadBundledFont(fontId) {
+  const id = FONTS[fontId] ? fontId : "sans-bold";
+  if (!loadedFonts.has(id)) {
+    loadedFonts.set(id, Promise.all(FONTS[id].files.map(async (file) => createFont(await fs.readFile(requireAsset.resolve(file))))));
+  }
+  return loadedFonts.get(id);
+}
+
+// Bundled ids resolve directly; custom ids only for their owner (unknown ids fall back to the default face)
+async function resolveFont(fontId, owner) {
+  if (!isCustomFontId(fontId)) return loadBundledFont(fontId);
+  if (!owner) throw new ApiError(401, "UNAUTHORIZED", "Sign in to use custom fonts");
+  const entry = (await listCustomFonts(owner)).find((f) => f.id === fontId);
+  if (!entry) throw new ApiError(404, "FONT_NOT_FOUND", "Custom font not found", { id: fontId });
+  if (!loadedFonts.has(entry.file)) loadedFonts.set(entry.file, fs.readFile(entry.file).then((buf) => [createFont(buf)]));
+  return loadedFonts.get(entry.file);
+}
+
+// Lays out one line with the font's kerning (GPOS/kern); characters the primary face
+// lacks go to the first fallback that has them. Subpaths are in px, y down, baseline at y = ascent.
+async function layoutGlyphs(text, faces, size) {
+  const [primary] = faces;
+  const baseline = (primary.ascent * size) / primary.unitsPerEm;
+  const runs = [];
+  for (const ch of text) {
+    const face = faces.find((f) => f.hasGlyphForCodePoint(ch.codePointAt(0))) || primary;
+    if (runs.length && runs[runs.length - 1].face === face) runs[runs.length - 1].text += ch;
+    else runs.push({ face, text: ch });
+  }
+  const glyphs = [];
+  let x = 0;
+  for (const { face, text: runText } of runs) {
+    const s = size / face.unitsPerEm;
+    const layout = face.layout(runText);
+    layout.glyphs.forEach((glyph, i) => {
+      const { xAdvance, xOffset, yOffset } = layout.positions[i];
+      const matrix = [s, 0, 0, -s, x + xOffset * s, baseline - yOffset * s];
+      const d = glyph.path.toSVG();
+      glyphs.push({ char: String.fromCodePoint(...glyph.codePoints), x, advance: xAdvance * s, subpaths: d ? parsePath(d).map((sp) => transformSubpath(sp, matrix)) : [] });
+      x += xAdvance * s;
+    });
+  }
+  return { glyphs, advance: x, ascent: baseline, descent: (-primary.descent * size) / primary.unitsPerEm };
+}
+
+// Lays out multi-line text: explicit newlines, greedy word wrap at maxWidth (breaking
+// after spaces), extra letterSpacing after each glyph, and lines aligned to the widest.
+// Glyph subpaths come back positioned; the first baseline is at y = ascent.
+async function layoutText(text, faces, size, { lineHeight = 1.2, letterSpacing = 0, maxWidth = 0, align = "left", curve } = {}) {
+  // Curved text is always a single line
+  if (curve) { text = text.replace(/\n/g, " "); maxWidth = 0; }
+  const spacing = letterSpacing * size, wrapAt = maxWidth * size;
+  const lines = [];
+  let ascent = size, descent = 0;
+  for (const paragraph of text.split("\n")) {
+    const laid = await layoutGlyphs(paragraph, faces, size);
+    ({ ascent, descent } = laid);
+    let line = [], breakAt = -1;
+    laid.glyphs.forEach((g, i) => {
+      const x = g.x + i * spacing;
+      const start = line.length ? line[0].x : x;
+      if (wrapAt > 0 && breakAt >= 0 && x + g.advance - start > wrapAt) {
+        lines.push(line.slice(0, breakAt + 1));
+        line = line.slice(breakAt + 1);
+        breakAt = -1;
+      }
+      line.push({ ...g, x, spaced: i * spacing });
+      if (!g.char.trim()) breakAt = line.length - 1;
+    });
+    lines.push(line);
+  }
+  // Trailing spaces don't count toward a line's width (so wrapped lines align cleanly)
+  const measured = lines.map((line) => {
+    const start = line.length ? line[0].x : 0;
+    const last = line.filter((g) => g.char.trim()).pop();
+    return { line, start, width: last ? last.x + last.advance - start : 0 };
+  });
+  const widest = Math.max(0, ...measured.map((m) => m.width));
+  const shift = { left: 0, center: 0.5, right: 1 }[align] ?? 0;
+  const glyphs = measured.flatMap(({ line, start, width }, row) => {
+    const dx = (widest - width) * shift - start, dy = row * lineHeight * size;
+    return line.map(({ spaced, ...g }) => ({ ...g, x: g.x + dx, y: dy, subpaths: g.subpaths.map((sp) => transformSubpath(sp, [1, 0, 0, 1, dx + spaced, dy])) }));
+  });
+  if (curve) return { glyphs: bendGlyphs(glyphs, widest, ascent, size, curve, align), lines: 1, width: widest, ascent, descent };
+  return { glyphs, lines: lines.length, width: widest, ascent, descent };
+}
+
+// { type: "arc", radius, startAngle, direction } or { type: "path", d, width, offset, direction };
+// a path follows its first subpath, e.g. one of the client's frame outlines
+function parseTextCurve(curve) {
+  if (!curve) return undefined;
+  const { type, direction = "clockwise", d } = curve;
+  if (!TEXT_CURVES.includes(type)) throw new ApiError(400, "INVALID_OPTIONS", `curve.type must be one of ${TEXT_CURVES.join(", ")}`, { field: "curve.type", allowed: TEXT_CURVES });
+  if (!CURVE_DIRECTIONS.includes(direction)) throw new ApiError(400, "INVALID_OPTIONS", `curve.direction must be one of ${CURVE_DIRECTIONS.join(", ")}`, { field: "curve.direction", allowed: CURVE_DIRECTIONS });
+  const parsed = { type, direction, ...parseTraceOptions(curve, type === "arc" ? { radius: 4, startAngle: 0 } : { offset: 0 }, TEXT_CURVE_PARAMS) };
+  if (type === "path") {
+    const sp = typeof d === "string" && d.length <= 10000 ? parsePath(d)[0] : null;
+    const pts = sp ? flattenSubpath(sp, 1) : [];
+    if (pts.length < 2 || !pts.flat().every(Number.isFinite)) throw new ApiError(400, "INVALID_OPTIONS", "curve.d must be an SVG path", { field: "curve.d" });
+    parsed.d = d;
+  }
+  return parsed;
+}
+
+// Arc-length lookup on a closed polyline: point and tangent angle at distance s (wraps around)
+function polylineWalker(points) {
+  const ring = [...points, points[0]].filter((p, i, all) => i === 0 || Math.hypot(p[0] - all[i - 1][0], p[1] - all[i - 1][1]) > 1e-9);
+  const lengths = [0];
+  for (let i = 1; i < ring.length; i++) lengths.push(lengths[i - 1] + Math.hypot(ring[i][0] - ring[i - 1][0], ring[i][1] - ring[i - 1][1]));
+  const total = lengths[lengths.length - 1];
+  const at = (s) => {
+    const pos = ((s % total) + total) % total;
+    let i = 1;
+    while (i < lengths.length - 1 && lengths[i] < pos) i++;
+    const [x0, y0] = ring[i - 1], [x1, y1] = ring[i], t = (pos - lengths[i - 1]) / (lengths[i] - lengths[i - 1]);
+    return { point: [x0 + (x1 - x0) * t, y0 + (y1 - y0) * t], angle: Math.atan2(y1 - y0, x1 - x0) };
+  };
+  return { total, at };
+}
+
+// Bends one laid-out line onto the curve: each glyph turns about its baseline midpoint to
+// the tangent there, tops to the left of travel (outward on a clockwise arc). `align`
+// picks which part of the line sits at the anchor (startAngle, or offset along the path).
+function bendGlyphs(glyphs, lineWidth, baseline, size, curve, align) {
+  const anchor = ({ left: 0, center: 0.5, right: 1 }[align] ?? 0) * lineWidth;
+  const clockwise = curve.direction === "clockwise";
+  let place;
+  if (curve.type === "arc") {
+    const r = curve.radius * size, start = (curve.startAngle * Math.PI) / 180;
+    place = (s) => {
+      const phi = start + ((clockwise ? 1 : -1) * (s - anchor)) / r;
+      return { point: [r * Math.sin(phi), -r * Math.cos(phi)], angle: clockwise ? phi : phi + Math.PI };
+    };
+  } else {
+    const points = flattenSubpath(parsePath(curve.d)[0], 1);
+    if (!clockwise) points.reverse();
+    const xs = points.map((p) => p[0]), outline = polylineWalker(points);
+    // Without an explicit width the outline is sized so the text covers half its length
+    const scale = curve.width ? (curve.width * size) / (Math.max(...xs) - Math.min(...xs) || 1) : (2 * lineWidth) / outline.total;
+    const walker = polylineWalker(points.map(([x, y]) => [x * scale, y * scale]));
+    place = (s) => walker.at(curve.offset * walker.total + s - anchor);
+  }
+  return glyphs.map((g) => {
+    const mid = g.x + g.advance / 2, { point, angle } = place(mid);
+    const matrix = multiplyMatrix([Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), point[0], point[1]], [1, 0, 0, 1, -mid, -baseline]);
+    return { ...g, angle: (angle * 180) / Math.PI, subpaths: g.subpaths.map((sp) => transformSubpath(sp, matrix)) };
+  });
+}
+
+// Tight bounds of the outlines (flattened, so curve bulges count)
+function subpathBounds(subpaths) {
+  const pts = subpaths.flatMap((sp) => flattenSubpath(sp, 4));
+  if (!pts.length) return null;
+  const xs = pts.map((p) => p[0]), ys = pts.map((p) => p[1]);
+  const left = Math.min(...xs), top = Math.min(...ys);
+  return { left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top };
+}
+
+// Outlines a string as frame paths; the viewBox hugs the ink like the old trimmed raster did.
+// Fonts resolve before the cache lookup so custom fonts stay private to their owners.
+async function outlineText(text, size, fontStyle, opts, owner = null, layout = {}) {
+  const faces = await resolveFont(fontStyle, owner);
+  return cachedResult("text", text, { ...opts, ...layout, size, fontStyle }, async () => {
+    const { glyphs } = await layoutText(text, faces, size, layout);
+    const subpaths = glyphs.flatMap((g) => g.subpaths);
+    const bounds = subpathBounds(subpaths);
+    if (!bounds) return { paths: [], viewBox: { left: 0, top: 0, width: size, height: size }, stats: pathStats([]) };
+    const shifted = subpaths.map((sp) => transformSubpath(sp, [1, 0, 0, 1, -bounds.left, -bounds.top]));
+    const paths = simplifySubpaths(shifted, opts);
+    return { paths, viewBox: { left: 0, top: 0, width: Math.ceil(bounds.width), height: Math.ceil(bounds.height) }, stats: pathStats(paths) };
+  });
+}
+
+// Outlines each visible glyph as its own frame, keeping the laid-out positions. Block
+// coordinates start at the top-left of the text's ink; each letter carries its ink
+// bounds, pen x, advance and baseline in that space so the client can rebuild the row.
+async function outlineLetters(text, size, fontStyle, opts, owner = null, layout = {}) {
+  const faces = await resolveFont(fontStyle, owner);
+  return cachedResult("letters", text, { ...opts, ...layout, size, fontStyle }, async () => {
+    const { glyphs, ascent } = await layoutText(text, faces, size, layout);
+    const block = subpathBounds(glyphs.flatMap((g) => g.subpaths));
+    if (!block) return { results: [], layout: { width: 0, height: 0, baseline: 0 } };
+    const results = glyphs.filter((g) => g.char.trim()).map((g) => {
+      const bounds = subpathBounds(g.subpaths);
+      if (!bounds) return { letter: g.char, paths: [], error: { code: "NO_PATHS", message: "Glyph has no outline" } };
+      const paths = simplifySubpaths(g.subpaths.map((sp) => transformSubpath(sp, [1, 0, 0, 1, -bounds.left, -bounds.top])), opts);
+      return {
+        letter: g.char,
+        paths,
+        viewBox: { left: 0, top: 0, width: Math.ceil(bounds.width), height: Math.ceil(bounds.height) },
+        stats: pathStats(paths),
+        bounds: { left: bounds.left - block.left, top: bounds.top - block.top, width: Math.ceil(bounds.width), height: Math.ceil(bounds.height) },
+        x: g.x - block.left,
+        advance: g.advance,
+        baseline: g.y + ascent - block.top,
+      };
+    });
+    return { results, layout: { width: Math.ceil(block.width), height: Math.ceil(block.height), baseline: ascent - block.top } };
+  });
+}
+
+// ---- Canva user tokens: JWTs from auth.getCanvaUserToken(), verified against the app's JWKS ----
+// Set CANVA_APP_ID in production; ALLOW_UNVERIFIED_TOKENS=1 skips the signature check for local dev.
 
-  const canvasW = 2000, canvasH = 1000;
-  const textSvg = `<svg xmlns="http://www.w3.org/2000/svg" width="${canvasW}" height="${canvasH}">
-    <rect width="${canvasW}" height="${canvasH}" fill="white"/>
-    <text x="${canvasW / 2}" y="${canvasH / 2 + fontSize * 0.1}" text-anchor="middle" dominant-baseline="middle"
-      font-family="${font.family}" font-size="${fontSize}" font-weight="${font.weight}"
-      fill="black">${escaped}</text>
-  </svg>`;
+const CANVA_APP_ID = process.env.CANVA_APP_ID;
+let canvaKeys = { keys: new Map(), fetchedAt: 0 };
 
-  const pngBuffer = await sharp(Buffer.from(textSvg)).png().toBuffer();
-  const trimmed = await sharp(pngBuffer).trim({ threshold: 20 }).toBuffer();
-  return trimmed;
+async function canvaPublicKey(kid) {
+  // Refetch on an unknown kid (key rotation), at most once a minute
+  if (!canvaKeys.keys.has(kid) && Date.now() - canvaKeys.fetchedAt > 60 * 1000) {
+    const res = await fetch(`https://api.canva.com/rest/v1/apps/${CANVA_APP_ID}/jwks`).catch(() => null);
+    if (!res?.ok) throw new ApiError(503, "AUTH_UNAVAILABLE", "Could not fetch Canva signing keys");
+    const { keys = [] } = await res.json();
+    canvaKeys = { keys: new Map(keys.map((k) => [k.kid, createPublicKey({ key: k, format: "jwk" })])), fetchedAt: Date.now() };
+  }
+  return canvaKeys.keys.get(kid);
+}
+
+async function verifyCanvaUser(req) {
+  const token = /^Bearer (.+)$/.exec(req.headers.authorization || "")?.[1];
+  if (!token) throw new ApiError(401, "UNAUTHORIZED", "Missing Canva user token");
+  const [head, body, signature = ""] = token.split(".");
+  let header, claims;
+  try { header = JSON.parse(Buffer.from(head, "base64url")); claims = JSON.parse(Buffer.from(body, "base64url")); }
+  catch { throw new ApiError(401, "UNAUTHORIZED", "Malformed Canva user token"); }
+  if (CANVA_APP_ID) {
+    const key = header.alg === "RS256" ? await canvaPublicKey(header.kid) : null;
+    if (!key || !verify("RSA-SHA256", Buffer.from(`${head}.${body}`), key, Buffer.from(signature, "base64url"))) throw new ApiError(401, "UNAUTHORIZED", "Invalid Canva user token");
+    if (claims.aud !== CANVA_APP_ID) throw new ApiError(401, "UNAUTHORIZED", "Token was issued for another app");
+  } else if (process.env.ALLOW_UNVERIFIED_TOKENS !== "1") {
+    throw new ApiError(503, "AUTH_NOT_CONFIGURED", "Server is missing CANVA_APP_ID");
+  }
+  if (claims.exp && claims.exp * 1000 < Date.now()) throw new ApiError(401, "UNAUTHORIZED", "Canva user token expired");
+  if (!claims.userId || !claims.brandId) throw new ApiError(401, "UNAUTHORIZED", "Token has no user or brand");
+  return { userId: claims.userId, brandId: claims.brandId };
+}
+
+// ---- Custom fonts: TTF/OTF/WOFF uploads stored on disk per brand (shared) or per user ----
+// Layout: FONT_STORE_DIR/<owner dir>/<id>.<ext> plus fonts.json listing the entries.
+
+const FONT_STORE_DIR = process.env.FONT_STORE_DIR || path.join(process.cwd(), "data", "fonts");
+const MAX_CUSTOM_FONTS = 20;
+
+const isCustomFontId = (id) => typeof id === "string" && /^custom-[0-9a-f]{16}$/.test(id);
+const hashId = (value) => createHash("sha256").update(value).digest("hex").slice(0, 24);
+const ownerDirs = ({ userId, brandId }) => ({ brand: path.join(FONT_STORE_DIR, `brand-${hashId(brandId)}`), user: path.join(FONT_STORE_DIR, `user-${hashId(`${brandId}:${userId}`)}`) });
+
+function detectFontFormat(buffer) {
+  const tag = buffer.toString("latin1", 0, 4);
+  if (tag === "\x00\x01\x00\x00" || tag === "true") return "ttf";
+  if (tag === "OTTO") return "otf";
+  if (tag === "wOFF") return "woff";
+  return null;
+}
+
+async function readFontIndex(dir) {
+  try { return JSON.parse(await fs.readFile(path.join(dir, "fonts.json"), "utf8")); } catch { return []; }
+}
+
+async function listCustomFonts(owner) {
+  const dirs = ownerDirs(owner);
+  const entries = [];
+  for (const scope of ["user", "brand"]) {
+    for (const f of await readFontIndex(dirs[scope])) {
+      if (!entries.some((e) => e.id === f.id)) entries.push({ ...f, scope, file: path.join(dirs[scope], `${f.id}.${f.ext}`) });
+    }
+  }
+  return entries;
+}
+
+const publicFontEntry = (f) => ({ id: f.id, name: f.name, family: f.family, weight: f.weight, scope: f.scope, custom: true });
+
+async function storeCustomFont(owner, buffer, { name, scope }) {
+  const ext = detectFontFormat(buffer);
+  if (!ext) throw new ApiError(415, "UNSUPPORTED_FONT", "Fonts must be TTF, OTF or WOFF");
+  let font;
+  try { font = createFont(buffer); } catch (e) { throw new ApiError(400, "INVALID_FONT", "Could not read the font file", { reason: String(e?.message || e) }); }
+  if (!font.unitsPerEm || font.numGlyphs < 2 || !font.hasGlyphForCodePoint("A".codePointAt(0))) {
+    throw new ApiError(400, "INVALID_FONT", "Font has no usable Latin glyphs");
+  }
+  const dir = ownerDirs(owner)[scope];
+  const index = await readFontIndex(dir);
+  const id = `custom-${createHash("sha256").update(buffer).digest("hex").slice(0, 16)}`;
+  const existing = index.find((f) => f.id === id);
+  if (existing) return { ...existing, scope, file: path.join(dir, `${id}.${existing.ext}`) };
+  if (index.length >= MAX_CUSTOM_FONTS) throw new ApiError(409, "FONT_LIMIT", `At most ${MAX_CUSTOM_FONTS} custom fonts per ${scope}`, { max: MAX_CUSTOM_FONTS });
+  const label = String(name || "").trim().slice(0, 40) || [font.familyName, font.subfamilyName].filter(Boolean).join(" ") || "Custom font";
+  const entry = { id, ext, name: label, family: font.familyName || label, weight: font["OS/2"]?.usWeightClass || 400, uploadedBy: hashId(owner.userId), uploadedAt: new Date().toISOString() };
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, `${id}.${ext}`), buffer);
+  await fs.writeFile(path.join(dir, "fonts.json"), JSON.stringify([...index, entry], null, 2));
+  return { ...entry, scope, file: path.join(dir, `${id}.${ext}`) };
+}
+
+async function deleteCustomFont(owner, id) {
+  const entry = (await listCustomFonts(owner)).find((f) => f.id === id);
+  if (!entry) throw new ApiError(404, "FONT_NOT_FOUND", "Custom font not found", { id });
+  const dir = path.dirname(entry.file);
+  await fs.writeFile(path.join(dir, "fonts.json"), JSON.stringify((await readFontIndex(dir)).filter((f) => f.id !== id), null, 2));
+  await fs.rm(entry.file, { force: true });
+  loadedFonts.delete(entry.file);
+}
+
+async function fontPreview(id, owner) {
+  const name = FONTS[id]?.name || (await listCustomFonts(owner)).find((f) => f.id === id)?.name || "Aa";
+  const { paths, viewBox } = await outlineText(name, 48, id, { precision: 0 }, owner);
+  return { paths, viewBox };
 }
 
 // Combined: all text as ONE frame
 app.post("/text-to-frame", async (req, res) => {
   try {
-    const { text, fontSize, fontStyle, mode } = req.body;
-    if (!text || !text.trim()) return res.status(400).json({ error: "No text provided" });
+    const { text, fontSize, fontStyle, mode, align = "left" } = req.body;
+    if (!text || !text.trim()) throw new ApiError(400, "NO_TEXT", "No text provided");
+    const opts = parseTraceOptions(req.body);
+    const layout = { ...parseTraceOptions(req.body, {}, TEXT_LAYOUT_PARAMS), align, curve: parseTextCurve(req.body.curve) };
+    if (!TEXT_ALIGNS.includes(align)) throw new ApiError(400, "INVALID_OPTIONS", `align must be one of ${TEXT_ALIGNS.join(", ")}`, { field: "align", allowed: TEXT_ALIGNS });
+    const owner = isCustomFontId(fontStyle) ? await verifyCanvaUser(req) : null;
 
     const size = fontSize || 250;
-    const cleanText = text.trim().substring(0, 50);
+    const cleanText = [...text.replace(/\r\n?/g, "\n").trim()].slice(0, MAX_TEXT_LENGTH).join("");
     const isIndividual = mode === "individual";
 
     if (isIndividual) {
-      // Individual: each letter becomes separate frame
-      const letters = cleanText.split("").filter(c => c.trim());
-      const results = [];
-
-      for (const letter of letters) {
-        try {
-          const trimmed = await renderTextToPng(letter, size, fontStyle);
-          const processed = await sharp(trimmed)
-            .ensureAlpha().flatten({ background: { r: 255, g: 255, b: 255 } })
-            .grayscale().normalise().threshold(128).png().toBuffer();
-          const svg = await traceSvg(processed, { threshold: 128, turdSize: 2 });
-          const result = extractPaths(svg);
-          results.push({ letter, ...result });
-        } catch (e) {
-          results.push({ letter, paths: [], error: String(e) });
-        }
-      }
-
-      res.json({ mode: "individual", results });
+      // Individual: each letter becomes a separate frame, positioned as laid out
+      const result = await outlineLetters(cleanText, size, fontStyle, opts, owner, layout);
+      res.json({ mode: "individual", ...result });
     } else {
       // Combined: entire text as ONE frame
-      const trimmed = await renderTextToPng(cleanText, size, fontStyle);
-      const processed = await sharp(trimmed)
-        .ensureAlpha().flatten({ background: { r: 255, g: 255, b: 255 } })
-        .grayscale().normalise().threshold(128).png().toBuffer();
-      const svg = await traceSvg(processed, { threshold: 128, turdSize: 2 });
-      const result = extractPaths(svg);
-
-      if (!result.paths.length) return res.status(500).json({ error: "Could not convert text" });
+      const result = await outlineText(cleanText, size, fontStyle, opts, owner, layout);
+
+      if (!result.paths.length) throw new ApiError(422, "NO_PATHS", "Could not convert text");
       res.json({ mode: "combined", ...result });
     }
-  } catch (e) { res.status(500).json({ error: String(e) }); }
+  } catch (e) { sendError(res, e); }
 });
 
 // Shape upload endpoint (user uploads PNG instead of export)
 app.post("/shape-to-frame", upload.single("file"), async (req, res) => {
   try {
-    if (!req.file) return res.status(400).json({ error: "No file uploaded" });
-    
+    if (!req.file) throw new ApiError(400, "NO_FILE", "No file uploaded");
+    const opts = parseTraceOptions(req.body, { threshold: 140, turdSize: 5 });
+    const input = await decodeUpload(req.file.buffer);
+    if (input.format === "svg") return sendSvgFrame(res, input.buffer, opts);
+
     // Trim whitespace, then process
-    const trimmed = await sharp(req.file.buffer).trim({ threshold: 20 }).toBuffer();
-    const result = await processImage(trimmed, { threshold: 140, turdSize: 5 });
+    const trimmed = await sharp(input.buffer).trim({ threshold: 20 }).toBuffer();
+    const result = await processImage(trimmed, opts);
     
-    if (!result.paths.length) return res.status(500).json({ error: "No paths found" });
+    if (!result.paths.length) throw new ApiError(422, "NO_PATHS", "No path found");
+    res.json(result);
+  } catch (e) { sendError(res, e); }
+});
+
+// ---- Shape booleans: polygon clipping on the flattened outlines, refit to curves ----
+// Each shape is { paths, viewBox, left, top, width, height }, boxes in a shared space; the first
+// shape is the base and each later one is combined into it with the operation. Outlines are
+// flattened in a space whose larger side is COMBINE_SIZE, clipped exactly, and the resulting
+// rings refit to cubics with their holes bridged in like any traced compound path.
+
+const BOOLEAN_OPS = { union: polygonClipping.union, difference: polygonClipping.difference, intersection: polygonClipping.intersection, xor: polygonClipping.xor };
+const COMBINE_SIZE = 1000;
+const MAX_COMBINE_SHAPES = 8;
+
+function parseCombineShapes(shapes) {
+  const num = (v) => typeof v === "number" && Number.isFinite(v);
+  if (!Array.isArray(shapes) || shapes.length < 2 || shapes.length > MAX_COMBINE_SHAPES) throw new ApiError(400, "INVALID_SHAPES", `shapes must list 2 to ${MAX_COMBINE_SHAPES} shapes`);
+  shapes.forEach((sh, index) => {
+    const ok = sh && Array.isArray(sh.paths) && sh.paths.length > 0 && sh.paths.length <= 300 && sh.paths.every((d) => typeof d === "string")
+      && sh.viewBox && ["left", "top", "width", "height"].every((k) => num(sh.viewBox[k]) && num(sh[k])) && sh.viewBox.width > 0 && sh.viewBox.height > 0 && sh.width > 0 && sh.height > 0;
+    if (!ok) throw new ApiError(400, "INVALID_SHAPES", "Each shape needs paths, a viewBox and a left/top/width/height box", { index });
+  });
+  return shapes;
+}
+
+// A shape's filled region as a MultiPolygon. Subpaths within one path combine even-odd, as
+// they're drawn; the shape's separate paths union. Bridged holes are self-touching rings,
+// which the clipper reads with the nonzero rule, so they stay holes.
+function shapeRegion(sh, matrix) {
+  const regions = sh.paths.map((d) => {
+    const rings = parsePath(d).map((sp) => flattenSubpath(transformSubpath(sp, matrix), 2)).filter((ring) => ring.length >= 3);
+    return rings.length > 1 ? polygonClipping.xor(...rings.map((ring) => [ring])) : rings.map((ring) => [ring]);
+  }).filter((region) => region.length);
+  if (!regions.length) throw new ApiError(400, "INVALID_SHAPES", "A shape has no closed outline");
+  return regions.length > 1 ? polygonClipping.union(...regions) : regions[0];
+}
+
+function combineShapes(shapes, operation, opts) {
+  const minX = Math.min(...shapes.map((sh) => sh.left)), minY = Math.min(...shapes.map((sh) => sh.top));
+  const spanX = Math.max(...shapes.map((sh) => sh.left + sh.width)) - minX, spanY = Math.max(...shapes.map((sh) => sh.top + sh.height)) - minY;
+  const k = COMBINE_SIZE / Math.max(spanX, spanY);
+  const regions = shapes.map((sh) => {
+    const sx = (sh.width / sh.viewBox.width) * k, sy = (sh.height / sh.viewBox.height) * k;
+    return shapeRegion(sh, [sx, 0, 0, sy, (sh.left - minX) * k - sh.viewBox.left * sx, (sh.top - minY) * k - sh.viewBox.top * sy]);
+  });
+  const clipped = regions.slice(1).reduce((acc, region) => BOOLEAN_OPS[operation](acc, region), regions[0]);
+  // Output rings repeat their first point; subpaths close implicitly
+  const subpaths = clipped.flat().map((ring) => ({ start: ring[0], segs: ring.slice(1, -1).map((to) => ({ to })), closed: true }));
+  const bounds = subpathBounds(subpaths);
+  if (!bounds || !bounds.width || !bounds.height) return { paths: [] };
+  const moved = subpaths.map((sp) => transformSubpath(sp, [1, 0, 0, 1, -bounds.left, -bounds.top]));
+  const paths = simplifySubpaths(moved, opts);
+  return { paths, viewBox: { left: 0, top: 0, width: Math.ceil(bounds.width), height: Math.ceil(bounds.height) }, stats: pathStats(paths) };
+}
+
+app.post("/combine-shapes", async (req, res) => {
+  try {
+    const { operation = "union" } = req.body;
+    if (!Object.hasOwn(BOOLEAN_OPS, operation)) throw new ApiError(400, "INVALID_OPTIONS", `operation must be one of ${Object.keys(BOOLEAN_OPS).join(", ")}`, { field: "operation", allowed: Object.keys(BOOLEAN_OPS) });
+    const shapes = parseCombineShapes(req.body.shapes);
+    const opts = parseTraceOptions(req.body, { tolerance: 1, minArea: 4 });
+    const result = combineShapes(shapes, operation, opts);
+    // An empty result (e.g. disjoint intersection) has no outline left
+    if (!result.paths.length) throw new ApiError(422, "NO_PATHS", "The combined shape is empty");
+    res.json(result);
+  } catch (e) { sendError(res, e); }
+});
+
+// ---- Frame effects: outline, glow and shadow layers from true path offsets ----
+// The shape is rasterized once with room for its largest offset; an exact Euclidean
+// distance field then gives the shape grown by any distance, which is traced and mapped
+// back into the shape's viewBox. Distances are fractions of the shape's larger side.
+
+const EFFECT_PARAMS = {
+  width:         { min: 0.005, max: 0.25 },
+  glowLayers:    { min: 1, max: 6, integer: true },
+  glowSpread:    { min: 0.01, max: 0.3 },
+  shadowX:       { min: -0.5, max: 0.5 },
+  shadowY:       { min: -0.5, max: 0.5 },
+  shadowBlur:    { min: 0, max: 0.2 },
+  shadowOpacity: { min: 0.05, max: 1 },
+};
+const EFFECT_DEFAULTS = { width: 0.04, glowLayers: 3, glowSpread: 0.08, shadowX: 0.04, shadowY: 0.04, shadowBlur: 0.03, shadowOpacity: 0.5 };
+const FRAME_EFFECTS = ["outline", "double", "glow", "shadow"];
+const EFFECT_SIZE = 600;
+const SHADOW_STEPS = 4;
+
+// Lower envelope of parabolas (Felzenszwalb & Huttenlocher), squared distances in place
+function distance1d(f, n, v, z, d) {
+  let k = 0;
+  v[0] = 0; z[0] = -Infinity; z[1] = Infinity;
+  for (let q = 1; q < n; q++) {
+    let s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) { k--; s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]); }
+    k++; v[k] = q; z[k] = s; z[k + 1] = Infinity;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) ** 2 + f[v[k]];
+  }
+  for (let q = 0; q < n; q++) f[q] = d[q];
+}
+
+// Squared distance from every pixel to the nearest inside pixel
+function distanceField(inside, width, height) {
+  const field = new Float64Array(width * height), n = Math.max(width, height);
+  for (let p = 0; p < field.length; p++) field[p] = inside[p] ? 0 : 1e20;
+  const f = new Float64Array(n), d = new Float64Array(n), v = new Int32Array(n), z = new Float64Array(n + 1);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = field[y * width + x];
+    distance1d(f, height, v, z, d);
+    for (let y = 0; y < height; y++) field[y * width + x] = f[y];
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = field[y * width + x];
+    distance1d(f, width, v, z, d);
+    for (let x = 0; x < width; x++) field[y * width + x] = f[x];
+  }
+  return field;
+}
+
+function rasterizeShape(paths, viewBox, margin) {
+  const scale = EFFECT_SIZE / Math.max(viewBox.width, viewBox.height), pad = Math.ceil(margin * EFFECT_SIZE) + 4;
+  const width = Math.ceil(viewBox.width * scale) + pad * 2, height = Math.ceil(viewBox.height * scale) + pad * 2;
+  const canvas = createCanvas(width, height), ctx = canvas.getContext("2d");
+  ctx.setTransform(scale, 0, 0, scale, pad - viewBox.left * scale, pad - viewBox.top * scale);
+  for (const d of paths) ctx.fill(new Path2D(d), "evenodd");
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const inside = new Uint8Array(width * height);
+  for (let p = 0; p < inside.length; p++) inside[p] = data[p * 4 + 3] >= 128 ? 1 : 0;
+  return { inside, width, height, scale, pad };
+}
+
+// Contours of the shape grown by `grow` (fraction), mapped back to viewBox units shifted by (dx, dy)
+function offsetContours(raster, field, viewBox, grow, dx = 0, dy = 0) {
+  const limit = (grow * EFFECT_SIZE) ** 2;
+  return traceRasterMask(raster, viewBox, (p) => field[p] <= limit, dx, dy);
+}
+
+// Traces the raster pixels `keep` selects back into viewBox units
+async function traceRasterMask(raster, viewBox, keep, dx = 0, dy = 0) {
+  const { width, height, scale, pad } = raster;
+  const raw = Buffer.alloc(width * height);
+  for (let p = 0; p < raw.length; p++) raw[p] = keep(p) ? 0 : 255;
+  const png = await sharp(raw, { raw: { width, height, channels: 1 } }).png().toBuffer();
+  const svg = await traceSvg(png, { threshold: 128, turdSize: 5 });
+  const unit = 1 / scale;
+  const matrix = [unit, 0, 0, unit, viewBox.left - pad * unit + dx, viewBox.top - pad * unit + dy];
+  return [...svg.matchAll(/<path[^>]*d="([^"]+)"/g)].flatMap((m) => parsePath(m[1]).map((sp) => transformSubpath(sp, matrix)));
+}
+
+function effectSimplifyOptions(raster) {
+  const unit = 1 / raster.scale;
+  return { tolerance: unit, minArea: (unit * 4) ** 2, precision: unit < 0.1 ? 2 : unit < 1 ? 1 : 0 };
+}
+
+async function offsetLayer(raster, field, viewBox, grow, dx = 0, dy = 0) {
+  return simplifySubpaths(await offsetContours(raster, field, viewBox, grow, dx, dy), effectSimplifyOptions(raster));
+}
+
+// Layers back to front; the frame itself goes on top, in its own viewBox inside `viewBox`
+async function frameEffectLayers(paths, viewBox, effect, opts) {
+  const size = Math.max(viewBox.width, viewBox.height);
+  const margin = { outline: opts.width, double: opts.width * 2, glow: opts.glowSpread, shadow: opts.shadowBlur }[effect];
+  const raster = rasterizeShape(paths, viewBox, margin);
+  const field = distanceField(raster.inside, raster.width, raster.height);
+  const layer = async (role, grow, opacity, dx, dy) => {
+    const layerPaths = await offsetLayer(raster, field, viewBox, grow, dx, dy);
+    return { role, opacity, paths: layerPaths, stats: pathStats(layerPaths) };
+  };
+  let layers = [];
+  if (effect === "outline") layers = [await layer("outline", opts.width, 1)];
+  if (effect === "double") layers = [await layer("outline", opts.width * 2, 1), await layer("gap", opts.width, 1)];
+  if (effect === "glow") {
+    for (let i = 0; i < opts.glowLayers; i++) layers.push(await layer("glow", (opts.glowSpread * (opts.glowLayers - i)) / opts.glowLayers, (i + 1) / (opts.glowLayers + 1)));
+  }
+  if (effect === "shadow") {
+    const steps = opts.shadowBlur > 0 ? SHADOW_STEPS : 1, dx = opts.shadowX * size, dy = opts.shadowY * size;
+    for (let i = 0; i < steps; i++) layers.push(await layer("shadow", steps > 1 ? (opts.shadowBlur * (steps - 1 - i)) / (steps - 1) : 0, (opts.shadowOpacity * (i + 1)) / steps, dx, dy));
+  }
+  const m = margin * size, dx = effect === "shadow" ? opts.shadowX * size : 0, dy = effect === "shadow" ? opts.shadowY * size : 0;
+  const extent = { left: viewBox.left - m + Math.min(0, dx), top: viewBox.top - m + Math.min(0, dy), width: viewBox.width + m * 2 + Math.abs(dx), height: viewBox.height + m * 2 + Math.abs(dy) };
+  return { viewBox: extent, layers: layers.filter((l) => l.paths.length) };
+}
+
+function parseFrameShape(paths, viewBox) {
+  if (!Array.isArray(paths) || !paths.length || paths.length > 300 || !paths.every((d) => typeof d === "string")) throw new ApiError(400, "INVALID_PATHS", "paths must be a non-empty array of strings");
+  if (!viewBox || !["left", "top", "width", "height"].every((k) => typeof viewBox[k] === "number" && Number.isFinite(viewBox[k])) || viewBox.width <= 0 || viewBox.height <= 0) throw new ApiError(400, "INVALID_PATHS", "viewBox needs a numeric left, top, width and height");
+}
+
+app.post("/frame-effect", async (req, res) => {
+  try {
+    const { paths, viewBox, effect } = req.body;
+    parseFrameShape(paths, viewBox);
+    if (!FRAME_EFFECTS.includes(effect)) throw new ApiError(400, "INVALID_OPTIONS", `effect must be one of ${FRAME_EFFECTS.join(", ")}`, { field: "effect", allowed: FRAME_EFFECTS });
+    const opts = parseTraceOptions(req.body, EFFECT_DEFAULTS, EFFECT_PARAMS);
+    const input = Buffer.from(JSON.stringify({ paths, viewBox }));
+    res.json(await cachedResult("effect", input, { effect, ...opts }, () => frameEffectLayers(paths, viewBox, effect, opts)));
+  } catch (e) { sendError(res, e); }
+});
+
+// ---- Gradient bands: one flat-colored layer cut into stacked bands to approximate a gradient ----
+// Band i covers the layer where t >= i / steps and is drawn over the bands before it, so
+// neighbours overlap instead of leaving seams. t runs 0 to 1 across the layer along the angle
+// (linear, degrees clockwise from left-to-right) or outward from its bounds' center (radial).
+
+const GRADIENT_TYPES = ["linear", "radial"];
+const GRADIENT_PARAMS = {
+  angle: { min: -360, max: 360 },
+  steps: { min: 2, max: 16, integer: true },
+};
+
+async function gradientBands(paths, viewBox, type, { angle = 0, steps = 8 }) {
+  const raster = rasterizeShape(paths, viewBox, 0);
+  const rad = (angle * Math.PI) / 180, cos = Math.cos(rad), sin = Math.sin(rad);
+  const bounds = subpathBounds(paths.flatMap((d) => parsePath(d))) || viewBox;
+  const cx = bounds.left + bounds.width / 2, cy = bounds.top + bounds.height / 2, unit = 1 / raster.scale;
+  // Raw position along the gradient, then stretched so the layer's own pixels span 0 to 1
+  const t = new Float32Array(raster.inside.length);
+  let lo = Infinity, hi = -Infinity;
+  for (let p = 0; p < t.length; p++) {
+    const x = viewBox.left + ((p % raster.width) - raster.pad) * unit - cx, y = viewBox.top + (Math.floor(p / raster.width) - raster.pad) * unit - cy;
+    t[p] = type === "radial" ? Math.hypot(x, y) : x * cos + y * sin;
+    if (raster.inside[p]) { lo = Math.min(lo, t[p]); hi = Math.max(hi, t[p]); }
+  }
+  if (type === "radial") lo = 0;
+  for (let p = 0; p < t.length; p++) t[p] = (t[p] - lo) / (hi - lo || 1);
+  const simplify = effectSimplifyOptions(raster), bands = [];
+  for (let i = 0; i < steps; i++) {
+    const from = i / steps;
+    const bandPaths = simplifySubpaths(await traceRasterMask(raster, viewBox, (p) => raster.inside[p] && t[p] >= from), simplify);
+    if (bandPaths.length) bands.push({ t: Math.min(1, (i + 0.5) / steps), paths: bandPaths, stats: pathStats(bandPaths) });
+  }
+  return { bands };
+}
+
+app.post("/gradient-bands", async (req, res) => {
+  try {
+    const { paths, viewBox, type = "linear" } = req.body;
+    parseFrameShape(paths, viewBox);
+    if (!GRADIENT_TYPES.includes(type)) throw new ApiError(400, "INVALID_OPTIONS", `type must be one of ${GRADIENT_TYPES.join(", ")}`, { field: "type", allowed: GRADIENT_TYPES });
+    const opts = parseTraceOptions(req.body, { angle: 0, steps: 8 }, GRADIENT_PARAMS);
+    const input = Buffer.from(JSON.stringify({ paths, viewBox }));
+    res.json(await cachedResult("gradient", input, { type, ...opts }, () => gradientBands(paths, viewBox, type, opts)));
+  } catch (e) { sendError(res, e); }
+});
+
+// ---- Frame borders: decorative edges laid along the shape's offset contour ----
+// The border's centerline is the shape grown by gap + width / 2; each style places pieces
+// (dashes, dots, strands) or bands (solid, scalloped, zig-zag, double) along it. Pieces
+// carry their center and arc position so clients can color them as a gradient.
+
+const BORDER_PARAMS = {
+  width:   { min: 0.005, max: 0.15 },
+  gap:     { min: 0, max: 0.2 },
+  spacing: { min: 0.5, max: 5 },
+};
+const BORDER_DEFAULTS = { width: 0.03, gap: 0.02, spacing: 1 };
+const BORDER_STYLES = ["solid", "dashed", "dotted", "scalloped", "zigzag", "rope", "double"];
+// Continuous styles are cut into this many pieces per contour when a gradient needs them,
+// or when one ring would go over Canva's path data limit for a single shape
+const BORDER_SPLIT = 24;
+const SHAPE_MAX_BYTES = 2048;
+
+// Walks a contour with offsets along its normal; positive offsets point away from the
+// shape (potrace winds outer contours and holes oppositely, so this holds for both)
+function contourWalker(sp, step) {
+  const walker = polylineWalker(flattenSubpath(sp, step));
+  const at = (s, offset = 0) => {
+    const { point: [x, y], angle } = walker.at(s);
+    return [x - Math.sin(angle) * offset, y + Math.cos(angle) * offset];
+  };
+  return { total: walker.total, at };
+}
+
+// A closed polygon from s0 to s1 between two offset profiles; lo/hi map arc length to offsets
+function bandPolygon(contour, s0, s1, lo, hi, step) {
+  const ss = [s0];
+  for (let k = Math.floor(s0 / step + 1e-6) + 1; k * step < s1 - 1e-6; k++) ss.push(k * step);
+  ss.push(s1);
+  const pts = [...ss.map((s) => contour.at(s, hi(s))), ...ss.reverse().map((s) => contour.at(s, lo(s)))];
+  return { start: pts[0], segs: pts.slice(1).map((to) => ({ to })), closed: true };
+}
+
+function ringSubpaths(contour, lo, hi, step) {
+  const n = Math.max(8, Math.round(contour.total / step));
+  const loop = (f) => { const pts = Array.from({ length: n }, (_, k) => contour.at((contour.total * k) / n, f((contour.total * k) / n))); return { start: pts[0], segs: pts.slice(1).map((to) => ({ to })), closed: true }; };
+  return [loop(hi), loop(lo)];
+}
+
+function circleSubpath([cx, cy], r) {
+  const k = r * 0.5523;
+  return { start: [cx + r, cy], closed: true, segs: [
+    { c1: [cx + r, cy + k], c2: [cx + k, cy + r], to: [cx, cy + r] }, { c1: [cx - k, cy + r], c2: [cx - r, cy + k], to: [cx - r, cy] },
+    { c1: [cx - r, cy - k], c2: [cx - k, cy - r], to: [cx, cy - r] }, { c1: [cx + k, cy - r], c2: [cx + r, cy - k], to: [cx + r, cy] },
+  ] };
+}
+
+function borderPieces(contour, style, w, spacing, split, simplify) {
+  const half = w / 2;
+  const period = w * spacing * ({ dashed: 5, dotted: 2, scalloped: 2, zigzag: 2, rope: 1.6 }[style] ?? 1);
+  const count = Math.max(3, Math.round(contour.total / period)), p = contour.total / count;
+  // Patterned edges sample on whole fractions of a period so every peak gets a vertex
+  const step = style === "zigzag" ? p / 2 : style === "scalloped" ? p / 8 : Math.max(w / 3, simplify.tolerance * 2);
+  const frac = (s) => ((s / p) % 1 + 1) % 1;
+  const profiles = {
+    solid: [[() => -half, () => half]],
+    double: [[() => -half, () => -half / 3], [() => half / 3, () => half]],
+    scalloped: [[() => -half, (s) => half + (p / 2) * Math.sqrt(Math.max(0, 1 - (2 * frac(s) - 1) ** 2))]],
+    zigzag: [[(s) => -half + (p / 3) * (1 - Math.abs(2 * frac(s) - 1)), (s) => half + (p / 3) * (1 - Math.abs(2 * frac(s) - 1))]],
+  };
+  const piece = (subpaths, s) => ({ paths: simplifySubpaths(subpaths, { ...simplify, minArea: 0 }), center: contour.at(s), t: s / contour.total });
+  if (profiles[style]) {
+    if (!split) {
+      const ring = piece(profiles[style].flatMap(([lo, hi]) => ringSubpaths(contour, lo, hi, step)), 0);
+      if (pathStats(ring.paths).bytes <= SHAPE_MAX_BYTES) return [ring];
+    }
+    // Whole periods per piece so seams fall between scallops; pieces overlap slightly to hide seams
+    const per = Math.max(1, Math.round(count / BORDER_SPLIT)), overlap = simplify.tolerance;
+    return Array.from({ length: Math.ceil(count / per) }, (_, i) => {
+      const s0 = i * per * p, s1 = Math.min(count, (i + 1) * per) * p;
+      return piece(profiles[style].map(([lo, hi]) => bandPolygon(contour, s0 - overlap, s1 + overlap, lo, hi, step)), (s0 + s1) / 2);
+    });
+  }
+  return Array.from({ length: count }, (_, i) => {
+    const s = i * p;
+    if (style === "dotted") return piece([circleSubpath(contour.at(s + p / 2), half)], s + p / 2);
+    if (style === "dashed") return piece([bandPolygon(contour, s, s + p * 0.6, () => -half, () => half, step)], s + p * 0.3);
+    // rope: slanted strands, each leaning forward by half a period across the band
+    const strand = [contour.at(s, -half), contour.at(s + p * 0.6, -half), contour.at(s + p * 1.1, half), contour.at(s + p * 0.5, half)];
+    return piece([{ start: strand[0], segs: strand.slice(1).map((to) => ({ to })), closed: true }], s + p * 0.55);
+  });
+}
+
+// Border pieces back to front share one viewBox covering the border's outer edge
+async function frameBorder(paths, viewBox, style, opts, split) {
+  const size = Math.max(viewBox.width, viewBox.height);
+  const w = opts.width * size, reach = opts.gap + opts.width * (style === "scalloped" || style === "zigzag" ? 1 + opts.spacing : 1);
+  const raster = rasterizeShape(paths, viewBox, opts.gap + opts.width / 2);
+  const field = distanceField(raster.inside, raster.width, raster.height);
+  const simplify = effectSimplifyOptions(raster);
+  const contours = (await offsetContours(raster, field, viewBox, opts.gap + opts.width / 2)).map((sp) => contourWalker(sp, simplify.tolerance));
+  const pieces = contours.filter((c) => c.total > w * 12).flatMap((c) => borderPieces(c, style, w, opts.spacing, split, simplify))
+    .filter((pc) => pc.paths.length).map((pc) => ({ ...pc, stats: pathStats(pc.paths) }));
+  const m = reach * size;
+  return { viewBox: { left: viewBox.left - m, top: viewBox.top - m, width: viewBox.width + m * 2, height: viewBox.height + m * 2 }, pieces };
+}
+
+app.post("/frame-border", async (req, res) => {
+  try {
+    const { paths, viewBox, style, split = false } = req.body;
+    parseFrameShape(paths, viewBox);
+    if (!BORDER_STYLES.includes(style)) throw new ApiError(400, "INVALID_OPTIONS", `style must be one of ${BORDER_STYLES.join(", ")}`, { field: "style", allowed: BORDER_STYLES });
+    const opts = parseTraceOptions(req.body, BORDER_DEFAULTS, BORDER_PARAMS);
+    const input = Buffer.from(JSON.stringify({ paths, viewBox }));
+    const result = await cachedResult("border", input, { style, split: Boolean(split), ...opts }, () => frameBorder(paths, viewBox, style, opts, Boolean(split)));
+    if (!result.pieces.length) throw new ApiError(422, "NO_PATHS", "The shape is too small for this border");
     res.json(result);
-  } catch (e) { res.status(500).json({ error: String(e) }); }
+  } catch (e) { sendError(res, e); }
 });
 
-app.get("/fonts", (_req, res) => res.json({ fonts: Object.keys(FONTS) }));
+// Re-simplify already traced paths without re-tracing (client-side size budget)
+app.post("/simplify", async (req, res) => {
+  try {
+    const { paths, viewBox } = req.body;
+    if (!Array.isArray(paths) || !paths.length || !paths.every((d) => typeof d === "string")) throw new ApiError(400, "INVALID_PATHS", "paths must be a non-empty array of strings");
+    const opts = parseTraceOptions(req.body);
+    const simplified = simplifyPaths(paths, opts);
+    res.json({ paths: simplified, viewBox, stats: pathStats(simplified) });
+  } catch (e) { sendError(res, e); }
+});
 
-const port = process.env.PORT || 3000;
-app.listen(port, () => console.log("Vectorize server running on", port));
+// Font list with each name outlined in its own face, for previews in the picker; signed-in
+// users also get their own and their brand's uploaded fonts
+let fontListing = null;
+app.get("/fonts", async (req, res) => {
+  try {
+    fontListing ??= Promise.all(Object.entries(FONTS).map(async ([id, f]) => ({ id, name: f.name, family: f.family, weight: f.weight, preview: await fontPreview(id) })))
+      .catch((e) => { fontListing = null; throw e; });
+    const owner = req.headers.authorization ? await verifyCanvaUser(req) : null;
+    const custom = owner ? await Promise.all((await listCustomFonts(owner)).map(async (f) => ({ ...publicFontEntry(f), preview: await fontPreview(f.id, owner) }))) : [];
+    res.json({ fonts: [...(await fontListing), ...custom] });
+  } catch (e) { sendError(res, e); }
+});
+
+app.post("/fonts", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) throw new ApiError(400, "NO_FILE", "No font uploaded");
+    const owner = await verifyCanvaUser(req);
+    const entry = await storeCustomFont(owner, req.file.buffer, { name: req.body.name, scope: req.body.scope === "user" ? "user" : "brand" });
+    res.status(201).json({ font: { ...publicFontEntry(entry), preview: await fontPreview(entry.id, owner) } });
+  } catch (e) { sendError(res, e); }
+});
+
+app.delete("/fonts/:id", async (req, res) => {
+  try {
+    await deleteCustomFont(await verifyCanvaUser(req), req.params.id);
+    res.status(204).end();
+  } catch (e) { sendError(res, e); }
+});
+
+// ---- Team palettes: brand colors shared by everyone in the user's Canva brand ----
+// Stored as PALETTE_STORE_DIR/brand-<hash>.json, a list of { color, name, addedBy, addedAt }.
+
+const PALETTE_STORE_DIR = process.env.PALETTE_STORE_DIR || path.join(process.cwd(), "data", "palettes");
+const MAX_PALETTE_COLORS = 40;
+
+const paletteFile = ({ brandId }) => path.join(PALETTE_STORE_DIR, `brand-${hashId(brandId)}.json`);
+const publicPaletteEntry = (c) => ({ color: c.color, name: c.name });
+
+async function readPalette(owner) {
+  try { return JSON.parse(await fs.readFile(paletteFile(owner), "utf8")); } catch { return []; }
+}
+
+async function writePalette(owner, colors) {
+  await fs.mkdir(PALETTE_STORE_DIR, { recursive: true });
+  await fs.writeFile(paletteFile(owner), JSON.stringify(colors, null, 2));
+}
+
+function parsePaletteColor(value) {
+  const hex = typeof value === "string" && /^#?([0-9a-f]{6})$/i.exec(value.trim());
+  if (!hex) throw new ApiError(400, "INVALID_COLOR", "color must be a hex color like #7D2AE8");
+  return `#${hex[1].toUpperCase()}`;
+}
+
+app.get("/palette", async (req, res) => {
+  try {
+    res.json({ colors: (await readPalette(await verifyCanvaUser(req))).map(publicPaletteEntry) });
+  } catch (e) { sendError(res, e); }
+});
+
+app.post("/palette", async (req, res) => {
+  try {
+    const owner = await verifyCanvaUser(req);
+    const color = parsePaletteColor(req.body.color);
+    const colors = await readPalette(owner);
+    if (!colors.some((c) => c.color === color)) {
+      if (colors.length >= MAX_PALETTE_COLORS) throw new ApiError(409, "PALETTE_LIMIT", `At most ${MAX_PALETTE_COLORS} team colors`, { max: MAX_PALETTE_COLORS });
+      colors.push({ color, name: String(req.body.name || "").trim().slice(0, 40), addedBy: hashId(owner.userId), addedAt: new Date().toISOString() });
+      await writePalette(owner, colors);
+    }
+    res.status(201).json({ colors: colors.map(publicPaletteEntry) });
+  } catch (e) { sendError(res, e); }
+});
+
+app.delete("/palette/:color", async (req, res) => {
+  try {
+    const owner = await verifyCanvaUser(req);
+    const color = parsePaletteColor(req.params.color);
+    const colors = await readPalette(owner);
+    if (!colors.some((c) => c.color === color)) throw new ApiError(404, "COLOR_NOT_FOUND", "That color isn't in the team palette", { color });
+    await writePalette(owner, colors.filter((c) => c.color !== color));
+    res.status(204).end();
+  } catch (e) { sendError(res, e); }
+});
+
+// Errors raised before a handler runs (upload limits, malformed JSON)
+app.use((err, _req, res, _next) => sendError(res, err));
+
+// Listens only when started directly, so tests can import the app and its helpers
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const port = process.env.PORT || 3000;
+  app.listen(port, () => console.log("Vectorize server running on", port));
+}
+
+export {
+  app, ApiError, toErrorResponse, UPLOAD_LIMITS, TRACE_PARAMS, parseTraceOptions, cacheKey,
+  parsePath, serializeSubpath, flattenSubpath, polygonArea, bridgeHoles, simplifyPaths, simplifySubpaths, pathStats,
+  svgToFrame, loadBundledFont, layoutText,
+};
@@ -0,0 +1,57 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { Buffer } from "buffer";
+import sharp from "sharp";
+import { app, cacheKey } from "../index.js";
+
+describe("cacheKey", () => {
+  const image = Buffer.from("image bytes");
+
+  it("is stable for the same kind, input and options", () => {
+    expect(cacheKey("vectorize", image, { threshold: 128, turdSize: 20 })).toBe(cacheKey("vectorize", image, { threshold: 128, turdSize: 20 }));
+  });
+
+  it("changes with any trace option", () => {
+    const base = cacheKey("vectorize", image, { threshold: 128, turdSize: 20 });
+    expect(cacheKey("vectorize", image, { threshold: 129, turdSize: 20 })).not.toBe(base);
+    expect(cacheKey("vectorize", image, { threshold: 128, turdSize: 21 })).not.toBe(base);
+    expect(cacheKey("vectorize", image, { threshold: 128, turdSize: 20, tolerance: 1 })).not.toBe(base);
+  });
+
+  it("ignores option order and undefined or empty values", () => {
+    expect(cacheKey("vectorize", image, { turdSize: 20, threshold: 128 })).toBe(cacheKey("vectorize", image, { threshold: 128, turdSize: 20, minArea: undefined, mode: "" }));
+  });
+
+  it("separates kinds and inputs", () => {
+    expect(cacheKey("vectorize", image, {})).not.toBe(cacheKey("remove-bg", image, {}));
+    expect(cacheKey("vectorize", image, {})).not.toBe(cacheKey("vectorize", Buffer.from("other bytes"), {}));
+  });
+});
+
+describe("cached uploads", () => {
+  let server, baseUrl, png;
+
+  beforeAll(async () => {
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+    png = await sharp({ create: { width: 64, height: 64, channels: 3, background: "#FFFFFF" } })
+      .composite([{ input: Buffer.from('<svg width="64" height="64"><rect x="12" y="16" width="40" height="30"/></svg>') }]).png().toBuffer();
+  });
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  const vectorize = async (fields) => {
+    const form = new FormData();
+    form.append("file", new Blob([png], { type: "image/png" }), "rect.png");
+    for (const [k, v] of Object.entries(fields)) form.append(k, v);
+    const res = await fetch(`${baseUrl}/vectorize`, { method: "POST", body: form });
+    await res.json();
+    return res.headers.get("x-cache");
+  };
+
+  it("hits for a repeat upload and misses once a trace option changes", async () => {
+    expect(await vectorize({ threshold: "100" })).toBe("MISS");
+    expect(await vectorize({ threshold: "100" })).toBe("HIT");
+    expect(await vectorize({ threshold: "101" })).toBe("MISS");
+    expect(await vectorize({ threshold: "100", mode: "posterize", colors: "3" })).toBe("MISS");
+  });
+});
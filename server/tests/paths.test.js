@@ -0,0 +1,61 @@
+import { describe, expect, it } from "@jest/globals";
+import { bridgeHoles, flattenSubpath, parsePath, polygonArea, serializeSubpath, simplifySubpaths } from "../index.js";
+
+const square = (x, y, size, clockwise = true) => clockwise
+  ? `M${x} ${y}L${x + size} ${y}L${x + size} ${y + size}L${x} ${y + size}Z`
+  : `M${x} ${y}L${x} ${y + size}L${x + size} ${y + size}L${x + size} ${y}Z`;
+const area = (sp) => Math.abs(polygonArea(flattenSubpath(sp)));
+const countMoves = (d) => (d.match(/M/g) || []).length;
+
+describe("parsePath / serializeSubpath", () => {
+  it("round-trips the compact M/L/C/Z form unchanged", () => {
+    const d = "M10 20L30 40C50 60 70 80 90 100L10.5 20.5Z";
+    const subpaths = parsePath(d);
+    expect(subpaths).toHaveLength(1);
+    expect(serializeSubpath(subpaths[0])).toBe(d);
+    expect(parsePath(serializeSubpath(subpaths[0]))).toEqual(subpaths);
+  });
+
+  it("resolves relative, H/V and quadratic commands to absolute lines and cubics", () => {
+    const [sp] = parsePath("m10 10h20v20H10q5 -10 0 -20z");
+    expect(serializeSubpath(sp, 2)).toBe("M10 10L30 10L30 30L10 30C13.33 23.33 13.33 16.67 10 10Z");
+  });
+
+  it("splits every M into its own subpath", () => {
+    expect(parsePath(`${square(0, 0, 10)}${square(20, 0, 10)}`).map((sp) => sp.start)).toEqual([[0, 0], [20, 0]]);
+  });
+
+  it("rounds to the requested precision without negative zero", () => {
+    const [sp] = parsePath("M-0.04 1.26L3.333 4Z");
+    expect(serializeSubpath(sp, 1)).toBe("M0 1.3L3.3 4Z");
+  });
+});
+
+describe("bridgeHoles", () => {
+  it("joins a hole into its outer contour as one subpath with the hole's area removed", () => {
+    const merged = bridgeHoles(parsePath(`${square(0, 0, 100)}${square(25, 25, 50)}`));
+    expect(merged).toHaveLength(1);
+    expect(area(merged[0])).toBeCloseTo(100 * 100 - 50 * 50);
+  });
+
+  it("removes the hole whichever way it is wound", () => {
+    const merged = bridgeHoles(parsePath(`${square(0, 0, 100)}${square(25, 25, 50, false)}`));
+    expect(merged).toHaveLength(1);
+    expect(area(merged[0])).toBeCloseTo(100 * 100 - 50 * 50);
+  });
+
+  it("keeps an island inside a hole as its own filled contour", () => {
+    const merged = bridgeHoles(parsePath(`${square(0, 0, 100)}${square(20, 20, 60)}${square(40, 40, 20)}`));
+    expect(merged.map(area).sort((a, b) => a - b)).toEqual([expect.closeTo(400), expect.closeTo(100 * 100 - 60 * 60)]);
+  });
+
+  it("leaves disjoint contours separate", () => {
+    expect(bridgeHoles(parsePath(`${square(0, 0, 10)}${square(20, 0, 10)}`))).toHaveLength(2);
+  });
+
+  it("gives each compound path a single M once serialized", () => {
+    const paths = simplifySubpaths(parsePath(`${square(0, 0, 100)}${square(10, 10, 20)}${square(60, 60, 20)}`));
+    expect(paths).toHaveLength(1);
+    expect(countMoves(paths[0])).toBe(1);
+  });
+});
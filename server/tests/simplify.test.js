@@ -0,0 +1,53 @@
+import { describe, expect, it } from "@jest/globals";
+import { flattenSubpath, parsePath, pathStats, polygonArea, simplifyPaths } from "../index.js";
+
+// Canva's shape limits and the client's fitToShapeBudget schedule for a 1000-unit viewBox
+const SHAPE_BUDGET = { paths: 30, bytes: 2048 };
+const BUDGET_STEPS = [0.5, 1, 2, 4, 8, 16];
+const fits = (stats) => stats.paths <= SHAPE_BUDGET.paths && stats.bytes <= SHAPE_BUDGET.bytes;
+const area = (d) => parsePath(d).reduce((sum, sp) => sum + Math.abs(polygonArea(flattenSubpath(sp))), 0);
+
+// Traced-looking input: a jittery outline as short lines, 30 small dots and 40 one-unit specks
+const ring = (cx, cy, r, n, jitter = 0) => Array.from({ length: n }, (_, i) => {
+  const a = (i / n) * Math.PI * 2, rr = r + jitter * Math.sin(i * 1.7);
+  return `${i ? "L" : "M"}${(cx + rr * Math.cos(a)).toFixed(2)} ${(cy + rr * Math.sin(a)).toFixed(2)}`;
+}).join("") + "Z";
+const outline = ring(500, 450, 380, 720, 0.5);
+const dots = Array.from({ length: 30 }, (_, i) => ring(30 + (i % 15) * 66, 880 + Math.floor(i / 15) * 50, 6, 24));
+const specks = Array.from({ length: 40 }, (_, i) => `M${20 + i * 24} 990L${21 + i * 24} 990L${21 + i * 24} 991L${20 + i * 24} 991Z`);
+const traced = [outline, ...dots, ...specks];
+const atStep = (paths, step) => simplifyPaths(paths, { tolerance: step, minArea: step * step * 20 });
+
+describe("simplifyPaths", () => {
+  it("starts over Canva's shape budget on both counts", () => {
+    const stats = pathStats(traced);
+    expect(stats.paths).toBeGreaterThan(SHAPE_BUDGET.paths);
+    expect(stats.bytes).toBeGreaterThan(SHAPE_BUDGET.bytes);
+  });
+
+  it("drops contours smaller than minArea", () => {
+    expect(simplifyPaths(traced, { minArea: 4 })).toHaveLength(1 + dots.length);
+    expect(simplifyPaths(traced, { minArea: 200 })).toHaveLength(1);
+  });
+
+  it("reaches the budget within the client's steps and keeps the main outline", () => {
+    const step = BUDGET_STEPS.find((s) => fits(pathStats(atStep(traced, s))));
+    expect(step).toBeDefined();
+    const fitted = atStep(traced, step);
+    expect(area(fitted[0]) / area(outline)).toBeCloseTo(1, 2);
+  });
+
+  it("shrinks the path data as tolerance grows", () => {
+    const bytes = [1, 2, 4].map((tolerance) => pathStats(simplifyPaths([outline], { tolerance })).bytes);
+    expect(bytes[0]).toBeLessThan(pathStats([outline]).bytes);
+    expect(bytes[1]).toBeLessThan(bytes[0]);
+    expect(bytes[2]).toBeLessThan(bytes[1]);
+  });
+
+  it("emits one closed M/L/C/Z subpath per path", () => {
+    for (const d of simplifyPaths(["M0 0H100V100Q50 150 0 100Z", ...dots.slice(0, 3)], { tolerance: 1 })) {
+      expect(d).toMatch(/^M[^M]*Z$/);
+      expect(d).not.toMatch(/[HVQSTA]/i);
+    }
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "@jest/globals";
+import { Buffer } from "buffer";
+import { svgToFrame } from "../index.js";
+
+const svg = (body, attrs = 'viewBox="0 0 100 100"') => Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" ${attrs}>${body}</svg>`);
+
+describe("svgToFrame", () => {
+  it("reads shapes with group transforms, skipping comments, CDATA and hidden elements", () => {
+    const result = svgToFrame(svg(`<!-- <rect width="100" height="100"/> --><![CDATA[<rect width="100" height="100"/>]]><defs><rect width="50" height="50"/></defs><g transform="translate(10 0)"><rect x="0" y="0" width="20" height="20" fill="red"/></g>`));
+    expect(result.viewBox).toEqual({ left: 0, top: 0, width: 100, height: 100 });
+    expect(result.paths).toEqual(["M10 0L30 0L30 20L10 20L10 0Z"]);
+  });
+
+  it("keeps self-closing tags from nesting and attributes containing >", () => {
+    const result = svgToFrame(svg(`<rect data-note="a > b" x="0" y="0" width="10" height="10"/><rect x="50" y="0" width="10" height="10" fill="blue"/>`), { mode: "posterize" });
+    expect(result.layers.map((l) => l.color)).toEqual(["#000000", "#0000FF"]);
+  });
+
+  // Each of these made the old tag/comment regexes scan to the end of the input from every "<"
+  it.each([
+    ["unterminated tags", `<svg ${"<a".repeat(200000)}`],
+    ["unterminated comments", `<svg>${"<!--".repeat(100000)}`],
+    ["an unterminated quote", `<svg viewBox="0 0 1 1"><rect x="${"<a ".repeat(130000)}`],
+    ["a long bare attribute name", `<svg ${"a".repeat(400000)}></svg>`],
+    ["unbalanced transforms", `<svg><g transform="${"a(".repeat(200000)}"><rect width="1" height="1"/></g></svg>`],
+  ])("finishes quickly on %s", (_name, markup) => {
+    const started = Date.now();
+    const result = svgToFrame(Buffer.from(markup));
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(result.paths.length).toBeLessThanOrEqual(1);
+  });
+});
+
+describe("svgToFrame in posterize mode", () => {
+  const square = (x, fill) => `<rect x="${x}" y="10" width="10" height="10" fill="${fill}"/>`;
+
+  it("merges the closest fills so a shape never needs more than 6 colors", () => {
+    // Two near-duplicate reds and blues among 8 distinct fills
+    const fills = ["#FF0000", "#F00000", "#00FF00", "#0000FF", "#0000F0", "#FFFF00", "#00FFFF", "#FF00FF"];
+    const result = svgToFrame(svg(fills.map((fill, i) => square(i * 12, fill)).join("")), { mode: "posterize" });
+    expect(result.layers).toHaveLength(6);
+    expect(result.layers.map((l) => l.color)).toEqual(["#FF0000", "#00FF00", "#0000FF", "#FFFF00", "#00FFFF", "#FF00FF"]);
+    expect(result.layers.flatMap((l) => l.paths)).toHaveLength(8);
+    expect(result.paths).toHaveLength(8);
+  });
+
+  it("leaves 6 or fewer fills alone", () => {
+    const result = svgToFrame(svg(["#FF0000", "#F00000"].map((fill, i) => square(i * 12, fill)).join("")), { mode: "posterize" });
+    expect(result.layers.map((l) => l.color)).toEqual(["#FF0000", "#F00000"]);
+  });
+});
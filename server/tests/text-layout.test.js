@@ -0,0 +1,64 @@
+import { beforeAll, describe, expect, it } from "@jest/globals";
+import { layoutText, loadBundledFont } from "../index.js";
+
+// Roboto Mono: every glyph has the same advance, so widths are easy to predict
+const SIZE = 100;
+let faces, advance;
+const rows = (layout) => {
+  const byY = new Map();
+  for (const g of layout.glyphs) byY.set(g.y, (byY.get(g.y) || "") + g.char);
+  return [...byY.values()];
+};
+const rowGlyphs = (layout, row) => layout.glyphs.filter((g) => g.y === row * 1.2 * SIZE && g.char.trim());
+
+beforeAll(async () => {
+  faces = await loadBundledFont("mono-bold");
+  advance = (await layoutText("a", faces, SIZE)).width;
+});
+
+describe("layoutText", () => {
+  it("keeps a single line without wrapping", async () => {
+    const layout = await layoutText("aaa bbb", faces, SIZE);
+    expect(layout.lines).toBe(1);
+    expect(layout.width).toBeCloseTo(7 * advance);
+  });
+
+  it("breaks at newlines and steps each line down by lineHeight", async () => {
+    const layout = await layoutText("ab\ncd", faces, SIZE, { lineHeight: 1.5 });
+    expect(layout.lines).toBe(2);
+    expect(layout.glyphs.map((g) => g.y)).toEqual([0, 0, 150, 150]);
+  });
+
+  it("wraps greedily after spaces at maxWidth, leaving trailing spaces out of the width", async () => {
+    // Room for "aaa bbb" (7 advances) but not "aaa bbb ccc"
+    const layout = await layoutText("aaa bbb ccc", faces, SIZE, { maxWidth: (8 * advance) / SIZE });
+    expect(rows(layout)).toEqual(["aaa bbb ", "ccc"]);
+    expect(layout.width).toBeCloseTo(7 * advance);
+  });
+
+  it("never breaks inside a word", async () => {
+    const layout = await layoutText("abcdefgh ij", faces, SIZE, { maxWidth: (3 * advance) / SIZE });
+    expect(rows(layout)).toEqual(["abcdefgh ", "ij"]);
+  });
+
+  it("adds letterSpacing after each glyph", async () => {
+    const plain = await layoutText("aaaa", faces, SIZE);
+    const spaced = await layoutText("aaaa", faces, SIZE, { letterSpacing: 0.1 });
+    expect(spaced.width).toBeCloseTo(plain.width + 3 * 0.1 * SIZE);
+  });
+
+  it.each([
+    ["left", 0],
+    ["center", 0.5],
+    ["right", 1],
+  ])("aligns shorter lines %s against the widest", async (align, shift) => {
+    const layout = await layoutText("a\naaa", faces, SIZE, { align });
+    const [short] = rowGlyphs(layout, 0), long = rowGlyphs(layout, 1);
+    expect(long[0].x).toBeCloseTo(0);
+    expect(short.x).toBeCloseTo(2 * advance * shift);
+    // Outlines move with their glyphs
+    const outlineLeft = Math.min(...short.subpaths.flatMap((sp) => [sp.start[0], ...sp.segs.map((s) => s.to[0])]));
+    expect(outlineLeft).toBeGreaterThanOrEqual(short.x);
+    expect(outlineLeft).toBeLessThan(short.x + advance);
+  });
+});
@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import sharp from "sharp";
+import { app, ApiError, TRACE_PARAMS, parseTraceOptions, toErrorResponse } from "../index.js";
+
+describe("parseTraceOptions", () => {
+  it("coerces multipart strings and keeps route defaults for fields left out or empty", () => {
+    expect(parseTraceOptions({ threshold: "90", tolerance: "1.5", precision: "" }, { threshold: 128, turdSize: 5 })).toEqual({ threshold: 90, turdSize: 5, tolerance: 1.5 });
+  });
+
+  it("ignores fields it doesn't know", () => {
+    expect(parseTraceOptions({ mode: "posterize", colors: "4" })).toEqual({});
+  });
+
+  it.each([
+    ["threshold", "256"],
+    ["threshold", "12.5"],
+    ["tolerance", "-1"],
+    ["alphaMax", "abc"],
+  ])("rejects %s=%s with an INVALID_OPTIONS envelope naming the field and its range", (field, value) => {
+    let error;
+    try { parseTraceOptions({ [field]: value }); } catch (e) { error = e; }
+    expect(error).toBeInstanceOf(ApiError);
+    expect(toErrorResponse(error)).toEqual({
+      status: 400,
+      body: { code: "INVALID_OPTIONS", message: expect.stringContaining(field), details: { field, ...TRACE_PARAMS[field] } },
+    });
+  });
+
+  it("validates against a route's own parameter table", () => {
+    expect(() => parseTraceOptions({ colors: "9" }, {}, { colors: { min: 2, max: 8, integer: true } })).toThrow(expect.objectContaining({ code: "INVALID_OPTIONS", details: { field: "colors", min: 2, max: 8, integer: true } }));
+  });
+});
+
+describe("upload routes", () => {
+  let server, baseUrl, png;
+
+  beforeAll(async () => {
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+    png = await sharp({ create: { width: 16, height: 16, channels: 3, background: "#000000" } }).png().toBuffer();
+  });
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  it("answers a bad tracing option with the error envelope before tracing", async () => {
+    const form = new FormData();
+    form.append("file", new Blob([png], { type: "image/png" }), "dot.png");
+    form.append("threshold", "300");
+    const res = await fetch(`${baseUrl}/vectorize`, { method: "POST", body: form });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ code: "INVALID_OPTIONS", message: expect.any(String), details: { field: "threshold", min: 0, max: 255, integer: true } });
+  });
+});
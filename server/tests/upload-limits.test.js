@@ -0,0 +1,49 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { Buffer } from "buffer";
+import sharp from "sharp";
+import { app, UPLOAD_LIMITS } from "../index.js";
+
+describe("upload limits", () => {
+  let server, baseUrl;
+
+  beforeAll(async () => {
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  const post = async (route, files, field = "file") => {
+    const form = new FormData();
+    for (const [name, buffer, type] of files) form.append(field, new Blob([buffer], { type }), name);
+    const res = await fetch(`${baseUrl}${route}`, { method: "POST", body: form });
+    return { status: res.status, body: await res.json() };
+  };
+  const png = (width, height) => sharp({ create: { width, height, channels: 3, background: "#000000" } }).png().toBuffer();
+
+  it("rejects files over the size limit with 413 FILE_TOO_LARGE", async () => {
+    const { status, body } = await post("/vectorize", [["big.png", Buffer.alloc(UPLOAD_LIMITS.fileSize + 1), "image/png"]]);
+    expect(status).toBe(413);
+    expect(body).toEqual({ code: "FILE_TOO_LARGE", message: expect.any(String), details: { maxBytes: UPLOAD_LIMITS.fileSize } });
+  });
+
+  it("rejects batches over the file count with 400 TOO_MANY_FILES", async () => {
+    const dot = await png(4, 4);
+    const files = Array.from({ length: UPLOAD_LIMITS.files + 1 }, (_, i) => [`dot-${i}.png`, dot, "image/png"]);
+    const { status, body } = await post("/vectorize-batch", files, "files");
+    expect(status).toBe(400);
+    expect(body).toMatchObject({ code: "TOO_MANY_FILES", details: { maxFiles: UPLOAD_LIMITS.files } });
+  });
+
+  it("rejects images past the dimension limit with 413 IMAGE_TOO_LARGE", async () => {
+    const { status, body } = await post("/vectorize", [["wide.png", await png(UPLOAD_LIMITS.maxDimension + 1, 1), "image/png"]]);
+    expect(status).toBe(413);
+    expect(body).toEqual({ code: "IMAGE_TOO_LARGE", message: expect.any(String), details: { width: UPLOAD_LIMITS.maxDimension + 1, height: 1, maxDimension: UPLOAD_LIMITS.maxDimension, maxPixels: UPLOAD_LIMITS.maxPixels } });
+  });
+
+  it("rejects files that aren't a supported format with 415 UNSUPPORTED_FORMAT", async () => {
+    const { status, body } = await post("/vectorize", [["notes.txt", Buffer.from("just some text"), "text/plain"]]);
+    expect(status).toBe(415);
+    expect(body.code).toBe("UNSUPPORTED_FORMAT");
+  });
+});
@@ -1,11 +1,54 @@
 import React, { useState, useEffect, useRef } from "react";
 import { createRoot } from "react-dom/client";
-import { addElementAtPoint, getDefaultPageDimensions, selection } from "@canva/design";
+import { AppUiProvider, Button, Slider } from "@canva/app-ui-kit";
+import "@canva/app-ui-kit/styles.css";
+import { addElementAtPoint, openDesign, selection } from "@canva/design";
+import { getTemporaryUrl, type ImageRef } from "@canva/asset";
+import { auth } from "@canva/user";
+import { fitIntoBox, getPageDimensions, getPlacementSettings, resolvePlacementBox, savePlacementSettings, type PlacementBox, type PlacementMode, type PlacementSettings } from "./placement";
 
 const BACKEND_URL = "https://frame-maker-backend-production.up.railway.app";
 
+// Server errors arrive as { code, message, details }; show our own copy per code, the server's message otherwise
+interface ApiErrorBody { code: string; message: string; details?: Record<string, unknown>; }
+const API_ERROR_MESSAGES: Record<string, string> = {
+  NO_FILE: "Choose a file first",
+  FILE_TOO_LARGE: "File is too large — max 5MB",
+  TOO_MANY_FILES: "Too many files — max 20 per batch",
+  UNSUPPORTED_FORMAT: "Unsupported file — use PNG, JPEG, WebP, SVG or PDF",
+  INVALID_IMAGE: "Couldn't read that file — it may be damaged",
+  IMAGE_TOO_LARGE: "Image is too big — max 8000px per side",
+  NO_PATHS: "Nothing to trace — try a higher-contrast image or adjust Threshold",
+  INVALID_SHAPES: "Those shapes couldn't be combined",
+  INVALID_PATHS: "That shape couldn't be read",
+  INVALID_COLOR: "That isn't a valid color",
+  PALETTE_LIMIT: "Team palette is full — remove a color first",
+  COLOR_NOT_FOUND: "That color was already removed from the team palette",
+  NO_TEXT: "Type some text first",
+  JOB_NOT_FOUND: "This batch expired — convert again",
+  NOTHING_TO_RETRY: "Nothing left to retry",
+  TOO_MANY_JOBS: "The server is busy with other batches — try again in a minute",
+  UNSUPPORTED_FONT: "Use a TTF, OTF or WOFF font file",
+  INVALID_FONT: "That font file couldn't be read",
+  FONT_NOT_FOUND: "That font is no longer available",
+  FONT_LIMIT: "Font limit reached — remove one first",
+  UNAUTHORIZED: "Couldn't verify your Canva account — reopen the app",
+  INTERNAL: "Server error — please try again",
+  NETWORK: "Can't reach the server — check your connection",
+};
+function describeApiError(err?: Partial<ApiErrorBody>) { return (err?.code && API_ERROR_MESSAGES[err.code]) || err?.message || "Something went wrong"; }
+// Canva user token for per-user/brand features (custom fonts); the server verifies it
+async function authHeaders(): Promise<Record<string, string>> { try { return { Authorization: `Bearer ${await auth.getCanvaUserToken()}` }; } catch { return {}; } }
+async function callApi(path: string, init: RequestInit) {
+  let res: Response;
+  try { res = await fetch(`${BACKEND_URL}${path}`, init); } catch (e) { if ((e as Error)?.name === "AbortError") throw e; throw new Error(describeApiError({ code: "NETWORK" })); }
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(describeApiError(data.code ? data : { code: res.status >= 500 ? "INTERNAL" : undefined }));
+  return data;
+}
+
 type Preset = "square" | "circle" | "rounded" | "heart" | "star" | "hexagon" | "diamond" | "arch" | "cross" | "oval";
-type Tab = "frames" | "convert" | "effects" | "pro";
+type Tab = "frames" | "layouts" | "convert" | "effects" | "pro";
 type FrameEffect = "none" | "shadow" | "glow" | "outline" | "double";
 
 const FRAME_PATHS: Record<string, { paths: string[]; viewBox: { width: number; height: number; left: number; top: number }; emoji: string }> = {
@@ -23,7 +66,9 @@ const FRAME_PATHS: Record<string, { paths: string[]; viewBox: { width: number; h
 
 const COLOR_PRESETS = ["#7D2AE8","#667eea","#764ba2","#f093fb","#4facfe","#43e97b","#fa709a","#fee140","#FF6B6B","#333333","#FFFFFF","#000000","#FF9800","#2196F3","#4CAF50"];
 
-const FONT_OPTIONS = [
+// Offline fallback; the live list (with outlined previews) comes from GET /fonts
+interface FontOption { id: string; name: string; family?: string; custom?: boolean; scope?: "brand" | "user"; preview?: { paths: string[]; viewBox: { width: number; height: number; left: number; top: number } }; }
+const FONT_OPTIONS: FontOption[] = [
   { id: "sans-bold", name: "Sans Bold" },
   { id: "serif-bold", name: "Serif Bold" },
   { id: "mono-bold", name: "Mono Bold" },
@@ -34,39 +79,425 @@ const FONT_OPTIONS = [
   { id: "mono-normal", name: "Mono Regular" },
   { id: "noto-bold", name: "Noto Bold" },
   { id: "noto-black", name: "Noto Black" },
+  { id: "display", name: "Display" },
+  { id: "script", name: "Script" },
+];
+
+// Tracing presets — "auto" sends nothing so each route keeps its own defaults
+interface TraceSettings { threshold: number; turdSize: number; optTolerance: number; alphaMax: number; tolerance: number; }
+const DEFAULT_TRACE_SETTINGS: TraceSettings = { threshold: 160, turdSize: 20, optTolerance: 0.2, alphaMax: 1, tolerance: 0 };
+const TRACE_PRESETS: Record<string, { name: string; settings: TraceSettings | null }> = {
+  auto:       { name: "Auto", settings: null },
+  logo:       { name: "Logo", settings: DEFAULT_TRACE_SETTINGS },
+  sketch:     { name: "Sketch", settings: { threshold: 210, turdSize: 2, optTolerance: 0.1, alphaMax: 0.8, tolerance: 0 } },
+  silhouette: { name: "Photo silhouette", settings: { threshold: 120, turdSize: 60, optTolerance: 0.4, alphaMax: 1.2, tolerance: 2 } },
+};
+const TRACE_SLIDERS: { key: keyof TraceSettings; label: string; min: number; max: number; step: number }[] = [
+  { key: "threshold", label: "Threshold", min: 0, max: 255, step: 1 },
+  { key: "turdSize", label: "Speckle size", min: 0, max: 100, step: 1 },
+  { key: "optTolerance", label: "Curve tolerance", min: 0, max: 1, step: 0.05 },
+  { key: "alphaMax", label: "Corner smoothness", min: 0, max: 1.3, step: 0.05 },
+  { key: "tolerance", label: "Simplify", min: 0, max: 10, step: 0.5 },
+];
+// Text layout sent with /text-to-frame; lengths are in ems of the font size (maxWidth 0 = no wrap)
+type TextAlign = "left" | "center" | "right";
+interface TextLayout { lineHeight: number; letterSpacing: number; maxWidth: number; align: TextAlign; }
+const DEFAULT_TEXT_LAYOUT: TextLayout = { lineHeight: 1.2, letterSpacing: 0, maxWidth: 0, align: "center" };
+const TEXT_LAYOUT_SLIDERS: { key: Exclude<keyof TextLayout, "align">; label: string; min: number; max: number; step: number }[] = [
+  { key: "lineHeight", label: "Line height", min: 0.6, max: 2.5, step: 0.05 },
+  { key: "letterSpacing", label: "Letter spacing", min: -0.1, max: 0.5, step: 0.01 },
+  { key: "maxWidth", label: "Wrap width", min: 0, max: 20, step: 0.5 },
 ];
+const TEXT_ALIGN_OPTIONS: { id: TextAlign; label: string }[] = [{ id: "left", label: "⬅ Left" }, { id: "center", label: "↔ Center" }, { id: "right", label: "Right ➡" }];
+// Curved text: arcs bend around a circle (radius in ems); "outline" follows a frame preset's path
+type TextCurveMode = "none" | "arc-up" | "arc-down" | "outline";
+const TEXT_CURVE_OPTIONS: { id: TextCurveMode; label: string }[] = [{ id: "none", label: "➖ Straight" }, { id: "arc-up", label: "⌒ Arch" }, { id: "arc-down", label: "⌣ Smile" }, { id: "outline", label: "⭕ Outline" }];
+function textCurvePayload(mode: TextCurveMode, radius: number, outline: Preset) {
+  if (mode === "arc-up") return { type: "arc", radius, startAngle: 0, direction: "clockwise" };
+  if (mode === "arc-down") return { type: "arc", radius, startAngle: 180, direction: "counterclockwise" };
+  if (mode === "outline") return { type: "path", d: FRAME_PATHS[outline]?.paths[0], width: radius * 2 };
+  return undefined;
+}
+function appendTraceSettings(form: FormData, settings: TraceSettings | null) { if (settings) (Object.keys(settings) as (keyof TraceSettings)[]).forEach((k) => form.append(k, String(settings[k]))); }
+
+// Uploads the server can decode; SVGs skip tracing, PDFs use their first page
+const UPLOAD_TYPES = ["image/png", "image/jpeg", "image/webp", "image/svg+xml", "application/pdf"];
+const UPLOAD_ACCEPT = UPLOAD_TYPES.join(",");
+function isSupportedUpload(f: File) { return UPLOAD_TYPES.includes(f.type); }
+
+// Pulls a design image's pixels via a temporary URL; large originals are re-encoded
+// (WebP keeps transparency) so they stay under the 5MB upload limit
+async function fetchDesignImage(ref: ImageRef): Promise<File> {
+  const { url } = await getTemporaryUrl({ type: "image", ref });
+  const blob = await (await fetch(url)).blob();
+  if (blob.size <= 5242880 && UPLOAD_TYPES.includes(blob.type)) return new File([blob], "design-image", { type: blob.type });
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, 2048 / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale); canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  const encoded = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/webp", 0.92));
+  if (!encoded) throw new Error(describeApiError({ code: "INVALID_IMAGE" }));
+  return new File([encoded], "design-image.webp", { type: "image/webp" });
+}
+type ImagePipeline = "/vectorize" | "/smart-crop" | "/remove-bg";
+function stripExtension(name: string) { return name.replace(/\.[^.]+$/, ""); }
+
+// Canva rejects shapes over 30 paths or 2kb of path data
+const SHAPE_BUDGET = { paths: 30, bytes: 2048 };
+interface PathStats { paths: number; bytes: number; segments: number; }
+function isOverBudget(stats?: PathStats) { return !!stats && (stats.paths > SHAPE_BUDGET.paths || stats.bytes > SHAPE_BUDGET.bytes); }
+// Same counts as the server's pathStats, for frames that arrive without stats (e.g. the library)
+function shapeStats(paths: string[]): PathStats { return { paths: paths.length, bytes: paths.reduce((n, d) => n + d.length, 0), segments: paths.reduce((n, d) => n + (d.match(/[LCHVQSTAZ]/gi) || []).length, 0) }; }
+
+// Tolerance steps in thousandths of the shape's larger side; minArea grows with the square
+const BUDGET_STEPS = [0.5, 1, 2, 4, 8, 16];
+async function simplifyAtStep(paths: string[], viewBox: { width: number; height: number; left: number; top: number }, step: number): Promise<{ paths: string[]; stats: PathStats } | null> {
+  const unit = Math.max(viewBox.width, viewBox.height) / 1000;
+  return callApi("/simplify", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ paths, viewBox, tolerance: Math.min(50, step * unit), minArea: step * step * unit * unit * 20 }) }).catch(() => null);
+}
+
+// Re-simplifies server-side with growing tolerance until the shape fits Canva's limits
+async function fitToShapeBudget<T extends { paths: string[]; viewBox: { width: number; height: number; left: number; top: number }; stats?: PathStats }>(data: T): Promise<T> {
+  if (!isOverBudget(data.stats)) return data;
+  let fitted = data;
+  for (const step of BUDGET_STEPS) {
+    const r = await simplifyAtStep(data.paths, data.viewBox, step);
+    if (!r?.paths?.length) break;
+    fitted = { ...data, paths: r.paths, stats: r.stats };
+    if (!isOverBudget(r.stats)) return fitted;
+  }
+  throw new Error(`Shape too detailed (${fitted.stats?.paths} paths, ${Math.round((fitted.stats?.bytes || 0) / 1024)}KB) — raise Simplify in Advanced`);
+}
 
 // FREE shapes (4) vs PRO shapes (6)
 const FREE_SHAPES: Preset[] = ["square", "circle", "rounded", "heart"];
 const PRO_SHAPES: Preset[] = ["star", "hexagon", "diamond", "arch", "cross", "oval"];
 
-async function getPageFitBox() {
-  const dims = await getDefaultPageDimensions();
-  const pw = dims.width, ph = dims.height;
-  const padding = Math.min(pw, ph) * 0.1;
-  const size = Math.min(pw - padding * 2, ph - padding * 2);
-  return { top: (ph - size) / 2, left: (pw - size) / 2, width: size, height: size };
+// ---- Shape generator: parametric frame outlines using only M/L/C/Z (what Canva shapes accept) ----
+type GeneratorKind = "polygon" | "star" | "superellipse" | "badge" | "blob" | "bubble";
+interface GeneratorParams { sides: number; cornerRadius: number; innerRatio: number; exponent: number; scallops: number; depth: number; seed: number; }
+const DEFAULT_GENERATOR_PARAMS: GeneratorParams = { sides: 6, cornerRadius: 12, innerRatio: 0.5, exponent: 4, scallops: 16, depth: 12, seed: 7 };
+const GENERATOR_KINDS: { id: GeneratorKind; label: string }[] = [{ id: "polygon", label: "⬡ Polygon" }, { id: "star", label: "⭐ Star" }, { id: "superellipse", label: "▢ Squircle" }, { id: "badge", label: "🏅 Badge" }, { id: "blob", label: "🫧 Blob" }, { id: "bubble", label: "💬 Bubble" }];
+const GENERATOR_SLIDERS: Record<GeneratorKind, { key: keyof GeneratorParams; label: string; min: number; max: number; step: number }[]> = {
+  polygon:      [{ key: "sides", label: "Sides", min: 3, max: 12, step: 1 }, { key: "cornerRadius", label: "Corner radius", min: 0, max: 60, step: 1 }],
+  star:         [{ key: "sides", label: "Points", min: 3, max: 16, step: 1 }, { key: "innerRatio", label: "Inner radius", min: 0.2, max: 0.9, step: 0.05 }, { key: "cornerRadius", label: "Corner radius", min: 0, max: 20, step: 1 }],
+  superellipse: [{ key: "exponent", label: "Squareness", min: 0.6, max: 8, step: 0.1 }],
+  badge:        [{ key: "scallops", label: "Scallops", min: 6, max: 40, step: 1 }, { key: "depth", label: "Depth", min: 2, max: 30, step: 1 }],
+  blob:         [{ key: "sides", label: "Lobes", min: 4, max: 12, step: 1 }, { key: "depth", label: "Wobble", min: 5, max: 50, step: 1 }, { key: "seed", label: "Seed", min: 1, max: 999, step: 1 }],
+  bubble:       [{ key: "cornerRadius", label: "Corner radius", min: 0, max: 60, step: 1 }],
+};
+
+const fmt = (n: number) => String(Math.round(n * 100) / 100);
+type Pt = [number, number];
+
+// Closed polygon with each corner replaced by a cubic of radius r (clamped to half the shorter edge)
+function roundedPolygonPath(points: Pt[], radius: number | number[]) {
+  if (!radius || (Array.isArray(radius) && radius.every((r) => !r))) return `M${points.map((p) => p.map(fmt).join(" ")).join("L")}Z`;
+  const k = 0.5523;
+  const corners = points.map((v, i) => {
+    const prev = points[(i + points.length - 1) % points.length] as Pt, next = points[(i + 1) % points.length] as Pt;
+    const r = Math.min(Array.isArray(radius) ? radius[i] ?? 0 : radius, Math.hypot(v[0] - prev[0], v[1] - prev[1]) / 2, Math.hypot(v[0] - next[0], v[1] - next[1]) / 2);
+    const toward = (p: Pt, d: number): Pt => { const len = Math.hypot(p[0] - v[0], p[1] - v[1]) || 1; return [v[0] + ((p[0] - v[0]) * d) / len, v[1] + ((p[1] - v[1]) * d) / len]; };
+    const a = toward(prev, r), b = toward(next, r);
+    return { a, b, c1: [a[0] + (v[0] - a[0]) * k, a[1] + (v[1] - a[1]) * k] as Pt, c2: [b[0] + (v[0] - b[0]) * k, b[1] + (v[1] - b[1]) * k] as Pt };
+  });
+  const first = corners[0];
+  if (!first) return "";
+  return `M${first.a.map(fmt).join(" ")}` + corners.map((c, i) => `${i ? `L${c.a.map(fmt).join(" ")}` : ""}C${[...c.c1, ...c.c2, ...c.b].map(fmt).join(" ")}`).join("") + "Z";
+}
+
+// Smooth closed curve through the points (Catmull-Rom converted to cubics)
+function smoothClosedPath(points: Pt[]) {
+  const n = points.length, at = (i: number) => points[(i + n) % n] as Pt;
+  let d = `M${at(0).map(fmt).join(" ")}`;
+  for (let i = 0; i < n; i++) {
+    const p0 = at(i - 1), p1 = at(i), p2 = at(i + 1), p3 = at(i + 2);
+    d += `C${[p1[0] + (p2[0] - p0[0]) / 6, p1[1] + (p2[1] - p0[1]) / 6, p2[0] - (p3[0] - p1[0]) / 6, p2[1] - (p3[1] - p1[1]) / 6, p2[0], p2[1]].map(fmt).join(" ")}`;
+  }
+  return d + "Z";
+}
+
+function mulberry32(seed: number) { return () => { seed = (seed + 0x6d2b79f5) | 0; let t = Math.imul(seed ^ (seed >>> 15), 1 | seed); t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t; return ((t ^ (t >>> 14)) >>> 0) / 4294967296; }; }
+const ring = (count: number, radius: (i: number, a: number) => number, offset = -Math.PI / 2): Pt[] => Array.from({ length: count }, (_, i) => { const a = offset + (i / count) * Math.PI * 2, r = radius(i, a); return [120 + r * Math.cos(a), 120 + r * Math.sin(a)]; });
+
+function generateShape(kind: GeneratorKind, p: GeneratorParams): { paths: string[]; viewBox: { width: number; height: number; left: number; top: number } } {
+  let points: Pt[], d: string;
+  switch (kind) {
+    case "polygon": points = ring(p.sides, () => 120); d = roundedPolygonPath(points, p.cornerRadius); break;
+    case "star": points = ring(p.sides * 2, (i) => (i % 2 ? 120 * p.innerRatio : 120)); d = roundedPolygonPath(points, p.cornerRadius); break;
+    case "superellipse": points = ring(32, (_, a) => 120 / Math.pow(Math.pow(Math.abs(Math.cos(a)), p.exponent) + Math.pow(Math.abs(Math.sin(a)), p.exponent), 1 / p.exponent)); d = smoothClosedPath(points); break;
+    case "badge": {
+      // One cubic per scallop between valley points, controls pushed out so each bump peaks at r = 120
+      const span = (Math.PI * 2) / p.scallops, inner = 120 - p.depth, outer = (960 - 2 * inner * Math.cos(span / 2)) / (6 * Math.cos(span * 0.35));
+      const polar = (r: number, a: number) => [120 + r * Math.cos(a), 120 + r * Math.sin(a)].map(fmt).join(" ");
+      points = ring(p.scallops * 2, () => 120);
+      d = `M${polar(inner, -Math.PI / 2)}` + Array.from({ length: p.scallops }, (_, i) => { const a = -Math.PI / 2 + i * span; return `C${polar(outer, a + span * 0.15)} ${polar(outer, a + span * 0.85)} ${polar(inner, a + span)}`; }).join("") + "Z";
+      break;
+    }
+    case "blob": { const rand = mulberry32(p.seed); points = ring(p.sides, () => 120 - p.depth * rand()); d = smoothClosedPath(points); break; }
+    default: points = [[0, 0], [240, 0], [240, 180], [110, 180], [50, 236], [70, 180], [0, 180]]; d = roundedPolygonPath(points, [p.cornerRadius, p.cornerRadius, p.cornerRadius, 4, 2, 4, p.cornerRadius]); break;
+  }
+  // Tight viewBox around the control polygon so placement keeps the shape's own aspect
+  const xs = points.map((pt) => pt[0]), ys = points.map((pt) => pt[1]);
+  const left = Math.floor(Math.min(...xs)) - 2, top = Math.floor(Math.min(...ys)) - 2;
+  return { paths: [d], viewBox: { left, top, width: Math.ceil(Math.max(...xs)) + 2 - left, height: Math.ceil(Math.max(...ys)) + 2 - top } };
+}
+
+// ---- Shape combiner: boolean ops between shapes, placed in a shared 100-unit space ----
+type BooleanOp = "union" | "difference" | "intersection" | "xor";
+const BOOLEAN_OPS: { id: BooleanOp; label: string }[] = [{ id: "union", label: "➕ Union" }, { id: "difference", label: "➖ Subtract" }, { id: "intersection", label: "✖️ Intersect" }, { id: "xor", label: "⊻ Exclude" }];
+// source: a preset key, a library frame id, or "generated" for the shape generator's current shape
+interface CombinePart { source: string; x: number; y: number; scale: number; }
+const DEFAULT_COMBINE_PARTS: CombinePart[] = [{ source: "circle", x: 0, y: 0, scale: 1 }, { source: "heart", x: 0, y: 0, scale: 0.5 }];
+function combinePartBox(part: CombinePart, viewBox: { width: number; height: number }) {
+  const size = 100 * part.scale, k = size / Math.max(viewBox.width, viewBox.height);
+  const width = viewBox.width * k, height = viewBox.height * k;
+  return { left: 50 + part.x - width / 2, top: 50 + part.y - height / 2, width, height };
 }
 
 function delay(ms: number) { return new Promise((r) => setTimeout(r, ms)); }
 
-async function addFrameFromPaths(paths: string[], viewBox = { width: 1000, height: 1000, left: 0, top: 0 }) {
-  const box = await getPageFitBox();
-  await addElementAtPoint({ type: "shape", top: box.top, left: box.left, width: box.width, height: box.height, paths: paths.map((d) => ({ d, fill: { dropTarget: true } })), viewBox });
+const PLACEMENT_OPTIONS: { id: PlacementMode; label: string }[] = [{ id: "page", label: "📄 Fit page" }, { id: "selection", label: "🎯 On selection" }, { id: "fixed", label: "📐 Fixed" }];
+
+// Latest canvas selection, kept up to date by the app's selection watchers
+let currentSelection: { kind: "text"; text: string } | { kind: "image"; ref: ImageRef } | null = null;
+async function getSelectionBox() {
+  if (currentSelection?.kind === "text") return (await findTextElementBox(currentSelection.text)).box;
+  if (currentSelection?.kind === "image") return findImageElementBox(currentSelection.ref);
+  return undefined;
+}
+function getPlacementBox(width: number, height: number) { return resolvePlacementBox(width, height, getSelectionBox); }
+
+async function addFrameFromPaths(paths: string[], viewBox = { width: 1000, height: 1000, left: 0, top: 0 }, target?: PlacementBox) {
+  const box = target ? fitIntoBox(viewBox.width, viewBox.height, target) : await getPlacementBox(viewBox.width, viewBox.height);
+  await addElementAtPoint({ type: "shape", ...box, paths: paths.map((d) => ({ d, fill: { dropTarget: true } })), viewBox });
+}
+
+// Finds a text element on the current page by its plaintext (selection events only expose the text).
+// Only a unique match counts: with none or several identical texts we can't tell which one is selected
+async function findTextElementBox(text: string): Promise<{ box?: PlacementBox; matches: number }> {
+  let box: PlacementBox | undefined, matches = 0;
+  await openDesign({ type: "current_page" }, async (session) => {
+    if (session.page.type !== "absolute") return;
+    const found = session.page.elements.toArray().filter((e) => e.type === "text" && e.text.readPlaintext().trim() === text);
+    matches = found.length;
+    const el = found.length === 1 ? found[0] : undefined;
+    if (el) box = { top: el.top, left: el.left, width: el.width, height: el.height, rotation: el.rotation };
+  });
+  return { box, matches };
+}
+async function findImageElementBox(ref: ImageRef): Promise<PlacementBox | undefined> {
+  let box: PlacementBox | undefined;
+  await openDesign({ type: "current_page" }, async (session) => {
+    if (session.page.type !== "absolute") return;
+    const el = session.page.elements.toArray().find((e) => e.type === "rect" && e.fill.mediaContainer.ref?.type === "image" && e.fill.mediaContainer.ref.imageRef === ref);
+    if (el) box = { top: el.top, left: el.left, width: el.width, height: el.height, rotation: el.rotation };
+  });
+  return box;
+}
+// Deletes the text element only when exactly one matches; returns whether it did
+async function deleteTextElement(text: string) {
+  let deleted = false;
+  await openDesign({ type: "current_page" }, async (session) => {
+    if (session.page.type !== "absolute") return;
+    const found = session.page.elements.toArray().filter((e) => e.type === "text" && e.text.readPlaintext().trim() === text);
+    const el = found.length === 1 ? found[0] : undefined;
+    if (el) { session.page.elements.delete(el); await session.sync(); deleted = true; }
+  });
+  return deleted;
+}
+
+// Individual-letter text: ink bounds are in the server's block space (top-left of the text's ink)
+interface PlacedLetter { letter: string; paths: string[]; viewBox: { width: number; height: number; left: number; top: number }; bounds: { width: number; height: number; left: number; top: number }; }
+async function addLetterFrames(letters: PlacedLetter[], asGroup: boolean, target?: PlacementBox) {
+  const minX = Math.min(...letters.map((l) => l.bounds.left)), minY = Math.min(...letters.map((l) => l.bounds.top));
+  const width = Math.max(...letters.map((l) => l.bounds.left + l.bounds.width)) - minX, height = Math.max(...letters.map((l) => l.bounds.top + l.bounds.height)) - minY;
+  const box = target ?? await getPlacementBox(width, height);
+  const scale = Math.min(box.width / width, box.height / height);
+  const top = box.top + (box.height - height * scale) / 2, left = box.left + (box.width - width * scale) / 2;
+  const shapes = letters.map((l) => ({ type: "shape" as const, top: (l.bounds.top - minY) * scale, left: (l.bounds.left - minX) * scale, width: l.bounds.width * scale, height: l.bounds.height * scale, paths: l.paths.map((d) => ({ d, fill: { dropTarget: true } })), viewBox: l.viewBox }));
+  if (asGroup && shapes.length > 1) { await addElementAtPoint({ type: "group", top, left, width: width * scale, height: height * scale, rotation: target?.rotation, children: shapes }); return; }
+  for (const shape of shapes) { await addElementAtPoint({ ...shape, top: top + shape.top, left: left + shape.left }); await delay(250); }
+}
+
+interface FrameLayer { color: string; paths: string[]; }
+// Color layers all go into one shape, so the budget covers them together. Each step simplifies
+// every layer separately (hole bridging never joins two colors); layers that simplify away are
+// dropped along with their drop-target flag.
+async function fitLayersToShapeBudget(layers: FrameLayer[], dropTargets: boolean[], viewBox: { width: number; height: number; left: number; top: number }) {
+  let fitted = { layers, dropTargets, stats: shapeStats(layers.flatMap((l) => l.paths)) };
+  if (!isOverBudget(fitted.stats)) return fitted;
+  for (const step of BUDGET_STEPS) {
+    const results = await Promise.all(layers.map((l) => simplifyAtStep(l.paths, viewBox, step)));
+    if (results.some((r) => !r)) break;
+    const kept = layers.map((l, i) => ({ layer: { ...l, paths: results[i]?.paths || [] }, target: !!dropTargets[i] })).filter((k) => k.layer.paths.length);
+    if (!kept.some((k) => k.target)) break;
+    fitted = { layers: kept.map((k) => k.layer), dropTargets: kept.map((k) => k.target), stats: shapeStats(kept.flatMap((k) => k.layer.paths)) };
+    if (!isOverBudget(fitted.stats)) return fitted;
+  }
+  throw new Error(`Shape too detailed (${fitted.stats.paths} paths, ${Math.round(fitted.stats.bytes / 1024)}KB) — use fewer Colors or raise Simplify in Advanced`);
+}
+async function addFrameFromLayers(layers: FrameLayer[], dropTargets: boolean[], viewBox = { width: 1000, height: 1000, left: 0, top: 0 }) {
+  const box = await getPlacementBox(viewBox.width, viewBox.height);
+  await addElementAtPoint({ type: "shape", ...box, paths: layers.flatMap((l, i) => l.paths.map((d) => ({ d, fill: dropTargets[i] ? { dropTarget: true } : { color: l.color } }))), viewBox });
+}
+
+// Effect layers are computed server-side by offsetting the shape; distances are fractions
+// of the shape's larger side. Shapes can't carry transparency when inserted, so each
+// layer's opacity is mixed toward white (assumes a light page behind the frame).
+interface EffectSettings { width: number; glowLayers: number; glowSpread: number; shadowX: number; shadowY: number; shadowBlur: number; shadowOpacity: number; }
+const DEFAULT_EFFECT_SETTINGS: EffectSettings = { width: 0.04, glowLayers: 3, glowSpread: 0.08, shadowX: 0.04, shadowY: 0.04, shadowBlur: 0.03, shadowOpacity: 0.5 };
+const EFFECT_SLIDERS: Record<Exclude<FrameEffect, "none">, { key: keyof EffectSettings; label: string; min: number; max: number; step: number; percent?: boolean }[]> = {
+  outline: [{ key: "width", label: "Width", min: 0.005, max: 0.25, step: 0.005, percent: true }],
+  double: [{ key: "width", label: "Width", min: 0.005, max: 0.25, step: 0.005, percent: true }],
+  glow: [{ key: "glowSpread", label: "Spread", min: 0.01, max: 0.3, step: 0.01, percent: true }, { key: "glowLayers", label: "Layers", min: 1, max: 6, step: 1 }],
+  shadow: [{ key: "shadowX", label: "Offset X", min: -0.5, max: 0.5, step: 0.01, percent: true }, { key: "shadowY", label: "Offset Y", min: -0.5, max: 0.5, step: 0.01, percent: true }, { key: "shadowBlur", label: "Blur", min: 0, max: 0.2, step: 0.01, percent: true }, { key: "shadowOpacity", label: "Opacity", min: 0.05, max: 1, step: 0.05, percent: true }],
+};
+function mixWithWhite(hex: string, opacity: number) {
+  const channel = (i: number) => Math.round(255 + (parseInt(hex.slice(i, i + 2), 16) - 255) * opacity).toString(16).padStart(2, "0");
+  return `#${channel(1)}${channel(3)}${channel(5)}`.toUpperCase();
+}
+interface EffectLayer { role: "outline" | "gap" | "glow" | "shadow"; opacity: number; paths: string[]; stats?: PathStats; }
+
+// Gradients, approximated with flat colors: effect layers are cut into stacked bands
+// server-side, border pieces are colored by where their center falls. Angles are degrees
+// clockwise from left-to-right; radial runs outward from the center.
+interface GradientStop { offset: number; color: string; }
+interface Gradient { type: "linear" | "radial"; angle: number; stops: GradientStop[]; }
+const DEFAULT_GRADIENT: Gradient = { type: "linear", angle: 0, stops: [{ offset: 0, color: "#7D2AE8" }, { offset: 1, color: "#4FACFE" }] };
+const GRADIENT_STEPS = 8;
+const MAX_GRADIENT_STOPS = 5;
+function mixColors(from: string, to: string, t: number) {
+  const channel = (i: number) => Math.round(parseInt(from.slice(i, i + 2), 16) + (parseInt(to.slice(i, i + 2), 16) - parseInt(from.slice(i, i + 2), 16)) * t).toString(16).padStart(2, "0");
+  return `#${channel(1)}${channel(3)}${channel(5)}`.toUpperCase();
+}
+function gradientColor(g: Gradient, t: number) {
+  const stops = [...g.stops].sort((a, b) => a.offset - b.offset);
+  let color = stops[0]?.color ?? "#000000";
+  for (const [i, b] of stops.entries()) {
+    const a = stops[i - 1];
+    if (t <= b.offset) return a ? mixColors(a.color, b.color, (t - a.offset) / (b.offset - a.offset || 1)) : b.color;
+    color = b.color;
+  }
+  return color;
+}
+function gradientCss(g: Gradient) {
+  const stops = [...g.stops].sort((a, b) => a.offset - b.offset).map((st) => `${st.color} ${Math.round(st.offset * 100)}%`).join(", ");
+  return g.type === "radial" ? `radial-gradient(circle, ${stops})` : `linear-gradient(${g.angle + 90}deg, ${stops})`;
+}
+
+// Decorative borders around the frame's outline, built server-side along its offset contour
+type BorderStyle = "none" | "solid" | "dashed" | "dotted" | "scalloped" | "zigzag" | "rope" | "double";
+interface BorderSettings { style: BorderStyle; width: number; gap: number; spacing: number; color: string; gradient: Gradient | null; }
+const DEFAULT_BORDER: BorderSettings = { style: "none", width: 0.03, gap: 0.02, spacing: 1, color: "#7D2AE8", gradient: null };
+const BORDER_STYLES: { id: BorderStyle; label: string }[] = [{ id: "none", label: "None" }, { id: "solid", label: "━ Solid" }, { id: "dashed", label: "┅ Dashed" }, { id: "dotted", label: "⋯ Dotted" }, { id: "scalloped", label: "◠ Scallop" }, { id: "zigzag", label: "⋀ Zig-zag" }, { id: "rope", label: "⫽ Rope" }, { id: "double", label: "═ Double" }];
+const BORDER_SLIDERS: { key: "width" | "gap" | "spacing"; label: string; min: number; max: number; step: number; percent?: boolean }[] = [{ key: "width", label: "Width", min: 0.005, max: 0.15, step: 0.005, percent: true }, { key: "gap", label: "Gap", min: 0, max: 0.2, step: 0.005, percent: true }, { key: "spacing", label: "Spacing", min: 0.5, max: 5, step: 0.1 }];
+interface BorderPiece { paths: string[]; center: [number, number]; t: number; stats?: PathStats; }
+// Packs pieces into as few shapes as Canva allows, one color per shape
+async function borderLayers(pieces: BorderPiece[], viewBox: { width: number; height: number; left: number; top: number }, border: BorderSettings) {
+  const { gradient } = border, rad = ((gradient?.angle ?? 0) * Math.PI) / 180;
+  const cx = viewBox.left + viewBox.width / 2, cy = viewBox.top + viewBox.height / 2;
+  const position = ({ center: [x, y] }: BorderPiece) => (gradient?.type === "radial" ? Math.hypot(x - cx, y - cy) : (x - cx) * Math.cos(rad) + (y - cy) * Math.sin(rad));
+  const raw = pieces.map(position);
+  // Stretched so the pieces span the whole gradient, like the server does for banded layers
+  const lo = gradient?.type === "radial" ? 0 : Math.min(...raw), hi = Math.max(...raw);
+  const byColor = new Map<string, string[]>();
+  for (const piece of pieces) {
+    const fitted = await fitToShapeBudget({ ...piece, viewBox });
+    const color = gradient ? gradientColor(gradient, Math.round(((position(piece) - lo) / (hi - lo || 1)) * (GRADIENT_STEPS - 1)) / (GRADIENT_STEPS - 1)) : border.color;
+    byColor.set(color, [...(byColor.get(color) || []), ...fitted.paths]);
+  }
+  const layers: { color: string; paths: string[] }[] = [];
+  for (const [color, paths] of byColor) {
+    let current: string[] = [], bytes = 0;
+    for (const d of paths) {
+      if (current.length && (current.length >= SHAPE_BUDGET.paths || bytes + d.length > SHAPE_BUDGET.bytes)) { layers.push({ color, paths: current }); current = []; bytes = 0; }
+      current.push(d); bytes += d.length;
+    }
+    if (current.length) layers.push({ color, paths: current });
+  }
+  return layers;
+}
+
+// The frame, its effect layers and its border go in as one group so they move and resize
+// together; each layer keeps its own viewBox, placed within their combined extent
+async function addFrameWithEffect(paths: string[], viewBox: { width: number; height: number; left: number; top: number }, effect: FrameEffect, effectColor: string, settings: EffectSettings = DEFAULT_EFFECT_SETTINGS, border: BorderSettings = DEFAULT_BORDER, effectGradient: Gradient | null = null, target?: PlacementBox) {
+  if (effect === "none" && border.style === "none") { await addFrameFromPaths(paths, viewBox, target); return; }
+  const post = (path: string, body: object) => callApi(path, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ paths, viewBox, ...body }) });
+  const layers: { viewBox: typeof viewBox; color: string; paths: string[] }[] = [];
+  if (effect !== "none") {
+    const data: { viewBox: typeof viewBox; layers: EffectLayer[] } = await post("/frame-effect", { effect, ...settings });
+    for (const l of data.layers) {
+      if (l.role === "gap" || !effectGradient) { const fitted = await fitToShapeBudget({ ...l, viewBox: data.viewBox }); layers.push({ viewBox: data.viewBox, color: l.role === "gap" ? "#FFFFFF" : mixWithWhite(effectColor, l.opacity), paths: fitted.paths }); continue; }
+      const { bands }: { bands: { t: number; paths: string[]; stats?: PathStats }[] } = await callApi("/gradient-bands", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ paths: l.paths, viewBox: data.viewBox, type: effectGradient.type, angle: effectGradient.angle, steps: GRADIENT_STEPS }) });
+      for (const band of bands) { const fitted = await fitToShapeBudget({ ...band, viewBox: data.viewBox }); layers.push({ viewBox: data.viewBox, color: mixWithWhite(gradientColor(effectGradient, band.t), l.opacity), paths: fitted.paths }); }
+    }
+  }
+  if (border.style !== "none") {
+    const data: { viewBox: typeof viewBox; pieces: BorderPiece[] } = await post("/frame-border", { style: border.style, width: border.width, gap: border.gap, spacing: border.spacing, split: !!border.gradient });
+    for (const l of await borderLayers(data.pieces, data.viewBox, border)) layers.push({ viewBox: data.viewBox, ...l });
+  }
+  const boxes = [viewBox, ...layers.map((l) => l.viewBox)];
+  const left = Math.min(...boxes.map((b) => b.left)), top = Math.min(...boxes.map((b) => b.top));
+  const extent = { left, top, width: Math.max(...boxes.map((b) => b.left + b.width)) - left, height: Math.max(...boxes.map((b) => b.top + b.height)) - top };
+  const box = target ? fitIntoBox(extent.width, extent.height, target) : await getPlacementBox(extent.width, extent.height);
+  const k = box.width / extent.width;
+  const place = (vb: typeof viewBox) => ({ top: (vb.top - extent.top) * k, left: (vb.left - extent.left) * k, width: vb.width * k, height: vb.height * k });
+  const children = layers.map((l) => ({ type: "shape" as const, ...place(l.viewBox), paths: l.paths.map((d) => ({ d, fill: { color: l.color } })), viewBox: l.viewBox }));
+  const frame = { type: "shape" as const, ...place(viewBox), paths: paths.map((d) => ({ d, fill: { dropTarget: true } })), viewBox };
+  await addElementAtPoint({ type: "group", ...box, children: [...children, frame] });
+}
+
+// Collage layouts: cells in page pixels, each filled with the chosen shape (fitted, aspect kept)
+type LayoutKind = "grid" | "mosaic" | "scatter" | "ring";
+interface LayoutSpec { kind: LayoutKind; rows: number; cols: number; count: number; gutter: number; }
+const DEFAULT_LAYOUT: LayoutSpec = { kind: "grid", rows: 2, cols: 2, count: 6, gutter: 24 };
+const LAYOUT_KINDS: { id: LayoutKind; label: string }[] = [{ id: "grid", label: "▦ Grid" }, { id: "mosaic", label: "🧱 Mosaic" }, { id: "scatter", label: "📸 Scatter" }, { id: "ring", label: "💞 Around center" }];
+
+// Deterministic jitter in [-1, 1) so a layout looks the same every time it's previewed
+function jitter(i: number) { const x = Math.sin(i * 12.9898 + 78.233) * 43758.5453; return (x - Math.floor(x)) * 2 - 1; }
+
+function layoutCells(spec: LayoutSpec, page: { width: number; height: number }): PlacementBox[] {
+  const { width: W, height: H } = page, g = spec.gutter, m = Math.min(W, H);
+  const gridCell = (cols: number, rows: number, c: number, r: number, spanC = 1, spanR = 1) => {
+    const cw = (W - g * (cols + 1)) / cols, ch = (H - g * (rows + 1)) / rows;
+    return { left: g + c * (cw + g), top: g + r * (ch + g), width: cw * spanC + g * (spanC - 1), height: ch * spanR + g * (spanR - 1) };
+  };
+  if (spec.kind === "grid") return Array.from({ length: spec.rows * spec.cols }, (_, i) => gridCell(spec.cols, spec.rows, i % spec.cols, Math.floor(i / spec.cols)));
+  // One hero cell spanning 2×2 of a 3×3 grid, five small cells around it
+  if (spec.kind === "mosaic") return [gridCell(3, 3, 0, 0, 2, 2), gridCell(3, 3, 2, 0), gridCell(3, 3, 2, 1), gridCell(3, 3, 0, 2), gridCell(3, 3, 1, 2), gridCell(3, 3, 2, 2)];
+  if (spec.kind === "scatter") {
+    const cols = Math.ceil(Math.sqrt((spec.count * W) / H)), rows = Math.ceil(spec.count / cols), size = Math.min(W / cols, H / rows) * 0.9;
+    return Array.from({ length: spec.count }, (_, i) => {
+      const cx = ((i % cols) + 0.5) * (W / cols) + jitter(i) * size * 0.15, cy = (Math.floor(i / cols) + 0.5) * (H / rows) + jitter(i + 50) * size * 0.15;
+      return { left: cx - size / 2, top: cy - size / 2, width: size, height: size, rotation: Math.round(jitter(i + 100) * 12) };
+    });
+  }
+  // Ring: a large center cell with `count` small cells on an ellipse around it
+  const hero = m * 0.42, small = m * 0.18, rx = W / 2 - small / 2 - g, ry = H / 2 - small / 2 - g;
+  return [{ left: (W - hero) / 2, top: (H - hero) / 2, width: hero, height: hero }, ...Array.from({ length: spec.count }, (_, i) => {
+    const a = (i / spec.count) * Math.PI * 2 - Math.PI / 2;
+    return { left: W / 2 + rx * Math.cos(a) - small / 2, top: H / 2 + ry * Math.sin(a) - small / 2, width: small, height: small };
+  })];
 }
 
-async function addFrameWithEffect(paths: string[], viewBox: { width: number; height: number; left: number; top: number }, effect: FrameEffect, effectColor: string) {
-  const box = await getPageFitBox();
-  try {
-    if (effect === "double") { const s = box.width * 1.16, o = (s - box.width) / 2; await addElementAtPoint({ type: "shape", top: box.top - o, left: box.left - o, width: s, height: s, paths: paths.map((d) => ({ d, fill: { color: effectColor } })), viewBox }); await delay(250); const s1 = box.width * 1.08, o1 = (s1 - box.width) / 2; await addElementAtPoint({ type: "shape", top: box.top - o1, left: box.left - o1, width: s1, height: s1, paths: paths.map((d) => ({ d, fill: { color: "#FFFFFF" } })), viewBox }); await delay(250); }
-    if (effect === "outline") { const s = box.width * 1.10, o = (s - box.width) / 2; await addElementAtPoint({ type: "shape", top: box.top - o, left: box.left - o, width: s, height: s, paths: paths.map((d) => ({ d, fill: { color: effectColor } })), viewBox }); await delay(250); }
-    if (effect === "glow") { const s = box.width * 1.12, o = (s - box.width) / 2; await addElementAtPoint({ type: "shape", top: box.top - o, left: box.left - o, width: s, height: s, paths: paths.map((d) => ({ d, fill: { color: effectColor } })), viewBox }); await delay(250); }
-    if (effect === "shadow") { await addElementAtPoint({ type: "shape", top: box.top + 8, left: box.left + 8, width: box.width, height: box.height, paths: paths.map((d) => ({ d, fill: { color: "#333333" } })), viewBox }); await delay(250); }
-    await addElementAtPoint({ type: "shape", top: box.top, left: box.left, width: box.width, height: box.height, paths: paths.map((d) => ({ d, fill: { dropTarget: true } })), viewBox });
-  } catch { await addElementAtPoint({ type: "shape", top: box.top, left: box.left, width: box.width, height: box.height, paths: paths.map((d) => ({ d, fill: { dropTarget: true } })), viewBox }); }
+async function addLayoutFrames(shape: { paths: string[]; viewBox: { width: number; height: number; left: number; top: number } }, cells: PlacementBox[]) {
+  const boxes = cells.map((cell) => fitIntoBox(shape.viewBox.width, shape.viewBox.height, cell));
+  const left = Math.min(...boxes.map((b) => b.left)), top = Math.min(...boxes.map((b) => b.top));
+  const width = Math.max(...boxes.map((b) => b.left + b.width)) - left, height = Math.max(...boxes.map((b) => b.top + b.height)) - top;
+  const children = boxes.map((b) => ({ type: "shape" as const, ...b, top: b.top - top, left: b.left - left, paths: shape.paths.map((d) => ({ d, fill: { dropTarget: true } })), viewBox: shape.viewBox }));
+  const [first, ...rest] = children;
+  if (first && !rest.length) { await addElementAtPoint({ ...first, top, left }); return; }
+  await addElementAtPoint({ type: "group", top, left, width, height, children });
 }
 
-interface SavedFrame { id: string; name: string; paths: string[]; viewBox: { width: number; height: number; left: number; top: number }; timestamp: number; }
+// Batch jobs: server statuses plus the client's own insertion outcome
+type BatchStatus = "queued" | "processing" | "done" | "error" | "inserted" | "skipped";
+interface BatchItem { index: number; name: string; status: BatchStatus; error?: string; }
+const BATCH_STATUS_LABELS: Record<BatchStatus, string> = { queued: "⏳ Queued", processing: "⚙️ Converting", done: "📥 Inserting", error: "❌ Failed", inserted: "✅ Added", skipped: "⚠️ Too detailed" };
+
+interface SavedFrame { id: string; name: string; paths: string[]; viewBox: { width: number; height: number; left: number; top: number }; layers?: FrameLayer[]; dropTargets?: boolean[]; timestamp: number; }
 function getSavedFrames(): SavedFrame[] { try { return JSON.parse(localStorage.getItem("frame_maker_library") || "[]"); } catch { return []; } }
 function saveFrame(f: Omit<SavedFrame, "id" | "timestamp">) { const frames = getSavedFrames(); frames.unshift({ ...f, id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6), timestamp: Date.now() }); if (frames.length > 50) frames.length = 50; localStorage.setItem("frame_maker_library", JSON.stringify(frames)); }
 function deleteFrame(id: string) { localStorage.setItem("frame_maker_library", JSON.stringify(getSavedFrames().filter((f) => f.id !== id))); }
@@ -79,6 +510,51 @@ const FREE_DAILY_LIMIT = 5;
 function Spinner() { return <div style={{ width: 16, height: 16, border: "2px solid rgba(255,255,255,0.3)", borderTop: "2px solid white", borderRadius: "50%", animation: "spin 0.6s linear infinite", display: "inline-block", marginRight: 6 }} />; }
 function Confetti() { return <div style={{ position: "fixed", top: 0, left: 0, width: "100%", height: "100%", pointerEvents: "none", zIndex: 9999 }}>{[...Array(30)].map((_, i) => <div key={i} style={{ position: "absolute", width: 8, height: 8, background: ["#667eea","#764ba2","#f093fb","#4facfe","#43e97b","#fa709a"][i % 6], left: `${Math.random() * 100}%`, top: "-10px", borderRadius: Math.random() > 0.5 ? "50%" : "2px", animation: `fall ${1 + Math.random() * 2}s linear`, animationDelay: `${Math.random() * 0.5}s` }} />)}</div>; }
 
+// Built-in presets plus the team palette; team colors can be saved and removed in place
+interface TeamColor { color: string; name: string; }
+function ColorSwatches({ value, onChange, teamColors, onSaveTeamColor, onRemoveTeamColor, size = 24 }: { value: string; onChange: (c: string) => void; teamColors: TeamColor[]; onSaveTeamColor: (c: string) => void; onRemoveTeamColor: (c: string) => void; size?: number }) {
+  const swatch = (c: string, title?: string) => <button key={c} title={title} onClick={() => onChange(c)} style={{ width: size, height: size, borderRadius: "50%", background: c, border: value.toUpperCase() === c.toUpperCase() ? "3px solid #333" : "2px solid #E5E7EB", cursor: "pointer", padding: 0 }} />;
+  return (
+    <div style={{ display: "flex", gap: 5, flexWrap: "wrap", alignItems: "center" }}>
+      {COLOR_PRESETS.map((c) => swatch(c))}
+      <input type="color" value={value} onChange={(e) => onChange(e.target.value)} style={{ width: size, height: size, border: "none", cursor: "pointer", padding: 0, borderRadius: "50%" }} />
+      <div style={{ width: "100%", display: "flex", gap: 5, flexWrap: "wrap", alignItems: "center", marginTop: 2 }}>
+        <span style={{ fontSize: 10, fontWeight: 700, color: "#9CA3AF" }}>TEAM</span>
+        {teamColors.map((c) => <span key={c.color} style={{ position: "relative" }}>{swatch(c.color, c.name || c.color)}<span onClick={() => onRemoveTeamColor(c.color)} title="Remove from team palette" style={{ position: "absolute", top: -4, right: -4, fontSize: 9, background: "white", borderRadius: "50%", width: 12, height: 12, lineHeight: "12px", textAlign: "center", cursor: "pointer", color: "#9CA3AF", boxShadow: "0 0 0 1px #E5E7EB" }}>×</span></span>)}
+        {!teamColors.some((c) => c.color.toUpperCase() === value.toUpperCase()) && <Button variant="tertiary" onClick={() => onSaveTeamColor(value)} tooltipLabel="Save the current color for your team">{`＋ Save ${value.toUpperCase()}`}</Button>}
+      </div>
+    </div>
+  );
+}
+
+function GradientEditor({ value, onChange }: { value: Gradient; onChange: (g: Gradient) => void }) {
+  const setStop = (i: number, patch: Partial<GradientStop>) => onChange({ ...value, stops: value.stops.map((st, j) => (j === i ? { ...st, ...patch } : st)) });
+  return (
+    <div style={{ marginTop: 6 }}>
+      <div style={{ display: "flex", gap: 4, marginBottom: 6 }}>
+        {(["linear", "radial"] as const).map((type) => <div key={type} style={{ flex: 1 }}><Button variant="secondary" pressed={value.type === type} onClick={() => onChange({ ...value, type })} stretch>{type === "linear" ? "↗ Linear" : "◎ Radial"}</Button></div>)}
+      </div>
+      <div style={{ height: 16, borderRadius: 8, background: gradientCss(value), border: "1px solid #E5E7EB", marginBottom: 6 }} />
+      {value.type === "linear" && (
+        <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 11, color: "#666", marginBottom: 4 }}>
+          <span style={{ width: 56 }}>Angle</span>
+          <div style={{ flex: 1 }}><Slider min={0} max={360} step={15} value={value.angle} onChange={(v) => onChange({ ...value, angle: v })} /></div>
+          <strong style={{ width: 36, textAlign: "right", color: "#374151" }}>{value.angle}°</strong>
+        </label>
+      )}
+      {value.stops.map((st, i) => (
+        <div key={i} style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 11, color: "#666", marginBottom: 4 }}>
+          <input type="color" value={st.color} onChange={(e) => setStop(i, { color: e.target.value })} style={{ width: 22, height: 22, border: "none", cursor: "pointer", padding: 0 }} />
+          <div style={{ flex: 1 }}><Slider min={0} max={1} step={0.05} value={st.offset} onChange={(v) => setStop(i, { offset: v })} /></div>
+          <strong style={{ width: 30, textAlign: "right", color: "#374151" }}>{Math.round(st.offset * 100)}%</strong>
+          {value.stops.length > 2 ? <span onClick={() => onChange({ ...value, stops: value.stops.filter((_, j) => j !== i) })} style={{ cursor: "pointer", color: "#9CA3AF", width: 10 }}>✕</span> : <span style={{ width: 10 }} />}
+        </div>
+      ))}
+      {value.stops.length < MAX_GRADIENT_STOPS && <Button variant="tertiary" onClick={() => onChange({ ...value, stops: [...value.stops, { offset: 0.5, color: gradientColor(value, 0.5) }] })} stretch>＋ Add stop</Button>}
+    </div>
+  );
+}
+
 function App() {
   const [activeTab, setActiveTab] = useState<Tab>("frames");
   const [status, setStatus] = useState("");
@@ -93,12 +569,25 @@ function App() {
   const [isDragging, setIsDragging] = useState(false);
   const [useSmartCrop, setUseSmartCrop] = useState(false);
   const [useRemoveBg, setUseRemoveBg] = useState(false);
+  const [bgFeather, setBgFeather] = useState(2);
+  const [bgDilate, setBgDilate] = useState(0);
+  const [usePosterize, setUsePosterize] = useState(false);
+  const [posterColors, setPosterColors] = useState(4);
+  const [posterResult, setPosterResult] = useState<{ name: string; layers: FrameLayer[]; viewBox: SavedFrame["viewBox"]; stats?: PathStats } | null>(null);
+  const [posterTargets, setPosterTargets] = useState<boolean[]>([]);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [tracePreset, setTracePreset] = useState("auto");
+  const [traceSettings, setTraceSettings] = useState<TraceSettings | null>(null);
+  const [tracePreview, setTracePreview] = useState<{ paths: string[]; layers?: FrameLayer[]; viewBox: SavedFrame["viewBox"]; stats?: PathStats } | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const [convertSubTab, setConvertSubTab] = useState<"png" | "batch" | "text" | "shape">("png");
   const dropZoneRef = useRef<HTMLDivElement>(null);
 
   // Batch
   const [batchFiles, setBatchFiles] = useState<File[]>([]);
-  const [batchProgress, setBatchProgress] = useState(0);
+  const [batchJobId, setBatchJobId] = useState<string | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const batchHandled = useRef(new Set<number>());
 
   // Library
   const [savedFrames, setSavedFrames] = useState<SavedFrame[]>(getSavedFrames());
@@ -107,16 +596,51 @@ function App() {
   // Effects
   const [selectedEffect, setSelectedEffect] = useState<FrameEffect>("none");
   const [selectedColor, setSelectedColor] = useState("#7D2AE8");
-  const [customColor, setCustomColor] = useState("#7D2AE8");
-  const [selectedFrameForEffect, setSelectedFrameForEffect] = useState<Preset>("circle");
+  const [effectGradient, setEffectGradient] = useState<Gradient | null>(null);
+  const [teamColors, setTeamColors] = useState<TeamColor[]>([]);
+  // A preset key, a library frame id, "converted" (last converted image) or "text" (current text)
+  const [effectSource, setEffectSource] = useState("circle");
+  const [lastConverted, setLastConverted] = useState<{ name: string; paths: string[]; viewBox: SavedFrame["viewBox"] } | null>(null);
+  // Applied while converting images and text, with the Effects tab's color and settings
+  const [convertEffect, setConvertEffect] = useState<FrameEffect>("none");
+  const [convertBorder, setConvertBorder] = useState<BorderStyle>("none");
+  const [effectSettings, setEffectSettings] = useState<EffectSettings>(DEFAULT_EFFECT_SETTINGS);
+  const [border, setBorder] = useState<BorderSettings>(DEFAULT_BORDER);
 
   // Text
   const [selectedText, setSelectedText] = useState("");
   const [hasTextSelection, setHasTextSelection] = useState(false);
+  const [selectedImageRef, setSelectedImageRef] = useState<ImageRef | null>(null);
   const [manualText, setManualText] = useState("");
   const [textFontSize, setTextFontSize] = useState(250);
   const [textFontStyle, setTextFontStyle] = useState("sans-bold");
+  const [fontOptions, setFontOptions] = useState<FontOption[]>(FONT_OPTIONS);
+  const [shareFontWithTeam, setShareFontWithTeam] = useState(true);
   const [textMode, setTextMode] = useState<"combined" | "individual">("combined");
+  const [textLayout, setTextLayout] = useState<TextLayout>(DEFAULT_TEXT_LAYOUT);
+  const [groupLetters, setGroupLetters] = useState(true);
+  const [textCurveMode, setTextCurveMode] = useState<TextCurveMode>("none");
+  const [textCurveRadius, setTextCurveRadius] = useState(4);
+  const [textCurveOutline, setTextCurveOutline] = useState<Preset>("circle");
+  const [replaceSelectedText, setReplaceSelectedText] = useState(false);
+  const [placement, setPlacement] = useState<PlacementSettings>(getPlacementSettings);
+  const updatePlacement = (p: PlacementSettings) => { setPlacement(p); savePlacementSettings(p); };
+
+  // Shape generator
+  const [generatorKind, setGeneratorKind] = useState<GeneratorKind>("polygon");
+  const [generatorParams, setGeneratorParams] = useState<GeneratorParams>(DEFAULT_GENERATOR_PARAMS);
+  const generatedShape = generateShape(generatorKind, generatorParams);
+
+  // Shape combiner
+  const [combineParts, setCombineParts] = useState<CombinePart[]>(DEFAULT_COMBINE_PARTS);
+  const [combineOp, setCombineOp] = useState<BooleanOp>("difference");
+  const [combineResult, setCombineResult] = useState<{ paths: string[]; viewBox: SavedFrame["viewBox"]; stats?: PathStats } | null>(null);
+
+  // Layouts
+  const [layoutSpec, setLayoutSpec] = useState<LayoutSpec>(DEFAULT_LAYOUT);
+  const [layoutShape, setLayoutShape] = useState("square");
+  const [layoutPage, setLayoutPage] = useState({ width: 1080, height: 1080 });
+  const [textPreview, setTextPreview] = useState<{ paths: string[]; viewBox: SavedFrame["viewBox"] } | null>(null);
 
   // Shape
   const [shapeFile, setShapeFile] = useState<File | null>(null);
@@ -126,16 +650,49 @@ function App() {
   useEffect(() => {
     try {
       const dispose = selection.registerOnChange({ scope: "plaintext", onChange: async (event) => {
-        if (event.count > 0) { try { const draft = await event.read(); setSelectedText(draft.contents[0]?.text || ""); setHasTextSelection(true); setManualText(draft.contents[0]?.text || ""); } catch { setHasTextSelection(false); } }
-        else { setHasTextSelection(false); setSelectedText(""); }
+        if (event.count > 0) { try { const draft = await event.read(); currentSelection = { kind: "text", text: (draft.contents[0]?.text || "").trim() }; setSelectedText(draft.contents[0]?.text || ""); setHasTextSelection(true); setManualText(draft.contents[0]?.text || ""); } catch { setHasTextSelection(false); } }
+        else { if (currentSelection?.kind === "text") currentSelection = null; setHasTextSelection(false); setSelectedText(""); }
       }}); return () => { if (dispose) dispose(); };
     } catch {}
   }, []);
+  useEffect(() => selection.registerOnChange({ scope: "image", onChange: async (event) => {
+    if (event.count > 0) { try { const draft = await event.read(); const ref = draft.contents[0]?.ref; currentSelection = ref ? { kind: "image", ref } : null; setSelectedImageRef(ref ?? null); } catch { setSelectedImageRef(null); } }
+    else { if (currentSelection?.kind === "image") currentSelection = null; setSelectedImageRef(null); }
+  }}), []);
+
+  // Bundled fonts with previews, plus this user's and brand's uploads
+  useEffect(() => {
+    authHeaders().then((headers) => callApi("/fonts", { headers })).then((data) => { if (data.fonts?.length) setFontOptions(data.fonts); }).catch(() => undefined);
+    authHeaders().then((headers) => callApi("/palette", { headers })).then((data) => setTeamColors(data.colors || [])).catch(() => undefined);
+  }, []);
+
+  // Live trace preview (debounced, free)
+  useEffect(() => {
+    if (!selectedFile) { setTracePreview(null); return; }
+    const ctrl = new AbortController();
+    const timer = setTimeout(async () => {
+      try { setIsPreviewing(true); const form = new FormData(); form.append("file", selectedFile); appendTraceSettings(form, traceSettings); if (usePosterize) { form.append("mode", "posterize"); form.append("colors", String(posterColors)); } setTracePreview(await callApi("/vectorize/preview", { method: "POST", body: form, signal: ctrl.signal })); }
+      catch { if (!ctrl.signal.aborted) setTracePreview(null); } finally { if (!ctrl.signal.aborted) setIsPreviewing(false); }
+    }, 400);
+    return () => { clearTimeout(timer); ctrl.abort(); };
+  }, [selectedFile, traceSettings, usePosterize, posterColors]);
+
+  // Live text preview (debounced; the server caches it, so converting the same text is instant)
+  useEffect(() => {
+    const text = manualText.trim();
+    if (!text) { setTextPreview(null); return; }
+    const ctrl = new AbortController();
+    const timer = setTimeout(async () => {
+      try { const headers = { "Content-Type": "application/json", ...(await authHeaders()) }; setTextPreview(await callApi("/text-to-frame", { method: "POST", headers, body: JSON.stringify({ text, fontSize: textFontSize, fontStyle: textFontStyle, ...textLayout, curve: textCurvePayload(textCurveMode, textCurveRadius, textCurveOutline) }), signal: ctrl.signal })); }
+      catch { if (!ctrl.signal.aborted) setTextPreview(null); }
+    }, 400);
+    return () => { clearTimeout(timer); ctrl.abort(); };
+  }, [manualText, textFontSize, textFontStyle, textLayout, textCurveMode, textCurveRadius, textCurveOutline]);
 
   // Keyboard shortcuts
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
-      if ((e.metaKey || e.ctrlKey) && e.key === "v") { navigator.clipboard.read().then((items) => { for (const item of items) { const t = item.types.find((t) => t.startsWith("image/png")); if (t) item.getType(t).then((blob) => { onFileSelect(new File([blob], "pasted.png", { type: "image/png" })); setActiveTab("convert"); }); } }).catch(() => {}); }
+      if ((e.metaKey || e.ctrlKey) && e.key === "v") { navigator.clipboard.read().then((items) => { for (const item of items) { const t = item.types.find((t) => UPLOAD_TYPES.includes(t)); if (t) item.getType(t).then((blob) => { onFileSelect(new File([blob], `pasted.${t.split("/")[1]?.replace("svg+xml", "svg")}`, { type: t })); setActiveTab("convert"); }); } }).catch(() => {}); }
       if (e.key === "Escape") clearFileSelection();
     };
     window.addEventListener("keydown", handler); return () => window.removeEventListener("keydown", handler);
@@ -146,7 +703,7 @@ function App() {
     const dz = dropZoneRef.current; if (!dz) return;
     const onOver = (e: DragEvent) => { e.preventDefault(); setIsDragging(true); };
     const onLeave = () => setIsDragging(false);
-    const onDrop = (e: DragEvent) => { e.preventDefault(); setIsDragging(false); const files = Array.from(e.dataTransfer?.files || []); const pngs = files.filter((f) => f.type.includes("png")); if (pngs.length === 1) { onFileSelect(pngs[0]); setActiveTab("convert"); } else if (pngs.length > 1) { setBatchFiles(pngs); setActiveTab("convert"); setConvertSubTab("batch"); } };
+    const onDrop = (e: DragEvent) => { e.preventDefault(); setIsDragging(false); const files = Array.from(e.dataTransfer?.files || []); const uploads = files.filter(isSupportedUpload); if (uploads.length === 1) { onFileSelect(uploads[0] || null); setActiveTab("convert"); } else if (uploads.length > 1) { setBatchFiles(uploads); setBatchItems([]); setBatchJobId(null); setActiveTab("convert"); setConvertSubTab("batch"); } };
     dz.addEventListener("dragover", onOver); dz.addEventListener("dragleave", onLeave); dz.addEventListener("drop", onDrop);
     return () => { dz.removeEventListener("dragover", onOver); dz.removeEventListener("dragleave", onLeave); dz.removeEventListener("drop", onDrop); };
   }, []);
@@ -164,6 +721,53 @@ function App() {
 
   const showSuccess = (msg: string) => { setStatus(msg); setShowConfetti(true); setTimeout(() => setShowConfetti(false), 2000); setTimeout(() => setStatus(""), 3000); };
 
+  useEffect(() => { if (activeTab === "layouts") getPageDimensions().then((d) => { if (d) setLayoutPage(d); }).catch(() => undefined); }, [activeTab]);
+  // Shape for layout cells: a preset key or a library frame id
+  const layoutSource = FRAME_PATHS[layoutShape] ?? savedFrames.find((f) => f.id === layoutShape);
+  const layoutPreviewCells = layoutCells(layoutSpec, layoutPage);
+  const onAddLayout = async () => {
+    if (!layoutSource || isConverting) return;
+    if (PRO_SHAPES.includes(layoutShape as Preset) && !isPro) { setStatus("🔒 Pro shape — upgrade to unlock!"); setActiveTab("pro"); return; }
+    if (!canUseFreeConvert()) { setStatus("🔒 Daily limit reached — upgrade to Pro!"); setActiveTab("pro"); return; }
+    try { setIsConverting(true); setStatus("Adding…"); const page = await getPageDimensions(); await addLayoutFrames(layoutSource, layoutCells(layoutSpec, page ?? layoutPage)); incrementUsage(); setDailyUsage(getTodayUsage()); showSuccess(`✅ ${layoutPreviewCells.length} frames added!`); } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
+  };
+
+  const onAddGenerated = async () => {
+    if (!canUseFreeConvert()) { setStatus("🔒 Daily limit reached — upgrade to Pro!"); setActiveTab("pro"); return; }
+    try { setStatus("Adding…"); await addFrameFromPaths(generatedShape.paths, generatedShape.viewBox); incrementUsage(); setDailyUsage(getTodayUsage()); showSuccess("✅ Frame added!"); } catch (e: any) { setStatus(`❌ ${e?.message}`); }
+  };
+  const onSaveGenerated = () => { saveFrame({ name: `${GENERATOR_KINDS.find((k) => k.id === generatorKind)?.label.split(" ").slice(1).join(" ")} (${GENERATOR_SLIDERS[generatorKind].map((sl) => generatorParams[sl.key]).join(", ")})`, paths: generatedShape.paths, viewBox: generatedShape.viewBox }); setSavedFrames(getSavedFrames()); showSuccess("💾 Saved to library"); };
+
+  const resolveShapeSource = (source: string) => source === "generated" ? generatedShape : source === "converted" ? lastConverted : source === "text" ? textPreview : FRAME_PATHS[source] ?? savedFrames.find((f) => f.id === source);
+  const effectSourceLabel = FRAME_PATHS[effectSource] ? effectSource : effectSource === "converted" ? lastConverted?.name : effectSource === "text" ? `“${manualText.trim().substring(0, 16)}”` : savedFrames.find((f) => f.id === effectSource)?.name;
+  // Converted frames go in with the chosen effect/border (Pro), styled like the Effects tab
+  const insertConverted = async (paths: string[], viewBox: SavedFrame["viewBox"], target?: PlacementBox) => {
+    if (isPro && (convertEffect !== "none" || convertBorder !== "none")) await addFrameWithEffect(paths, viewBox, convertEffect, selectedColor, effectSettings, { ...border, style: convertBorder }, effectGradient, target);
+    else await addFrameFromPaths(paths, viewBox, target);
+  };
+  const updateCombinePart = (i: number, patch: Partial<CombinePart>) => setCombineParts(combineParts.map((p, j) => (j === i ? { ...p, ...patch } : p)));
+  // Debounced server-side combine; the result doubles as the preview
+  const combineKey = JSON.stringify([combineParts, combineOp, combineParts.some((p) => p.source === "generated") ? generatedShape.paths : null]);
+  useEffect(() => {
+    const shapes = combineParts.map((part) => { const src = resolveShapeSource(part.source); return src && { paths: src.paths, viewBox: src.viewBox, ...combinePartBox(part, src.viewBox) }; });
+    if (shapes.length < 2 || shapes.some((sh) => !sh)) { setCombineResult(null); return; }
+    const ctrl = new AbortController();
+    const timer = setTimeout(async () => {
+      try { setCombineResult(await callApi("/combine-shapes", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ operation: combineOp, shapes }), signal: ctrl.signal })); }
+      catch { if (!ctrl.signal.aborted) setCombineResult(null); }
+    }, 400);
+    return () => { clearTimeout(timer); ctrl.abort(); };
+  }, [combineKey]);
+  const onAddCombined = async () => {
+    if (!combineResult || isConverting) return;
+    if (!canUseFreeConvert()) { setStatus("🔒 Daily limit reached — upgrade to Pro!"); setActiveTab("pro"); return; }
+    try { setIsConverting(true); setStatus("Adding…"); const fitted = await fitToShapeBudget(combineResult); await addFrameFromPaths(fitted.paths, fitted.viewBox); incrementUsage(); setDailyUsage(getTodayUsage()); showSuccess("✅ Frame added!"); } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
+  };
+  const onSaveCombined = async () => {
+    if (!combineResult) return;
+    try { const fitted = await fitToShapeBudget(combineResult); saveFrame({ name: `${BOOLEAN_OPS.find((o) => o.id === combineOp)?.label.split(" ")[1]}: ${combineParts.map((p) => FRAME_PATHS[p.source] ? p.source : p.source === "generated" ? "generated" : savedFrames.find((f) => f.id === p.source)?.name).join(" + ")}`.substring(0, 40), paths: fitted.paths, viewBox: fitted.viewBox }); setSavedFrames(getSavedFrames()); showSuccess("💾 Saved to library"); } catch (e: any) { setStatus(`❌ ${e?.message}`); }
+  };
+
   const onAddPreset = async (preset: Preset) => {
     const isProShape = PRO_SHAPES.includes(preset);
     if (isProShape && !isPro) { setStatus("🔒 Pro shape — upgrade to unlock!"); setActiveTab("pro"); return; }
@@ -172,40 +776,109 @@ function App() {
     catch (e: any) { setStatus(`❌ ${e?.message}`); }
   };
 
-  const onFileSelect = (file: File | null) => { if (!file) { clearFileSelection(); return; } if (file.size > 5242880) { setStatus("❌ Max 5MB"); return; } if (!file.type.includes("png")) { setStatus("❌ Only PNG"); return; } setSelectedFile(file); setPreviewUrl(URL.createObjectURL(file)); setStatus(""); };
-  const clearFileSelection = () => { if (previewUrl) URL.revokeObjectURL(previewUrl); setSelectedFile(null); setPreviewUrl(""); setStatus(""); setIsConverting(false); };
+  const onFileSelect = (file: File | null) => { if (!file) { clearFileSelection(); return; } if (file.size > 5242880) { setStatus(`❌ ${API_ERROR_MESSAGES.FILE_TOO_LARGE}`); return; } if (!isSupportedUpload(file)) { setStatus(`❌ ${API_ERROR_MESSAGES.UNSUPPORTED_FORMAT}`); return; } setSelectedFile(file); setPreviewUrl(URL.createObjectURL(file)); setStatus(""); };
+  const clearFileSelection = () => { if (previewUrl) URL.revokeObjectURL(previewUrl); setSelectedFile(null); setPreviewUrl(""); setStatus(""); setIsConverting(false); setPosterResult(null); setPosterTargets([]); };
 
+  // Runs an upload through a pipeline and inserts the frame; false while posterized regions await a pick
+  const convertImage = async (file: File, ep: ImagePipeline) => {
+    setStatus("Uploading…"); const form = new FormData(); form.append("file", file); appendTraceSettings(form, traceSettings); if (ep === "/vectorize" && usePosterize) { form.append("mode", "posterize"); form.append("colors", String(posterColors)); } if (ep === "/remove-bg") { form.append("feather", String(bgFeather)); form.append("dilate", String(bgDilate)); } const data = await callApi(ep, { method: "POST", body: form }); if (!data.paths?.length) throw new Error(describeApiError({ code: "NO_PATHS" }));
+      if (data.layers?.length) { setPosterResult({ name: stripExtension(file.name), layers: data.layers, viewBox: data.viewBox, stats: data.stats }); setPosterTargets(data.layers.map((_: FrameLayer, i: number) => i === 0)); setStatus("🎨 Pick the regions that become photo drop targets"); return false; }
+      const fitted = await fitToShapeBudget(data); await insertConverted(fitted.paths, fitted.viewBox); saveFrame({ name: stripExtension(file.name), paths: fitted.paths, viewBox: fitted.viewBox }); setSavedFrames(getSavedFrames()); setLastConverted({ name: stripExtension(file.name), paths: fitted.paths, viewBox: fitted.viewBox }); incrementUsage(); setDailyUsage(getTodayUsage()); showSuccess("🎉 Frame created!"); return true;
+  };
   const onConvertToFrame = async () => {
     if (!selectedFile || isConverting) return;
     if (!canUseFreeConvert()) { setStatus("🔒 Daily limit — upgrade!"); setActiveTab("pro"); return; }
-    try { setIsConverting(true); setStatus("Uploading…"); const form = new FormData(); form.append("file", selectedFile); const ep = useSmartCrop ? "/smart-crop" : useRemoveBg ? "/remove-bg" : "/vectorize"; const data = await (await fetch(`${BACKEND_URL}${ep}`, { method: "POST", body: form })).json(); if (data.error) throw new Error(data.error); if (!data.paths?.length) throw new Error("No paths"); await addFrameFromPaths(data.paths, data.viewBox); saveFrame({ name: selectedFile.name.replace(".png", ""), paths: data.paths, viewBox: data.viewBox }); setSavedFrames(getSavedFrames()); incrementUsage(); setDailyUsage(getTodayUsage()); showSuccess("🎉 Frame created!"); setTimeout(clearFileSelection, 2500); } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
+    try { setIsConverting(true); if (await convertImage(selectedFile, useSmartCrop ? "/smart-crop" : useRemoveBg ? "/remove-bg" : "/vectorize")) setTimeout(clearFileSelection, 2500); } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
+  };
+  // One click on an image already in the design: no export / re-upload
+  const onConvertSelectedImage = async (ep: ImagePipeline) => {
+    if (!selectedImageRef || isConverting) return;
+    if (!canUseFreeConvert()) { setStatus("🔒 Daily limit — upgrade!"); setActiveTab("pro"); return; }
+    try { setIsConverting(true); setStatus("📥 Reading selected image…"); await convertImage(await fetchDesignImage(selectedImageRef), ep); } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
+  };
+
+  const onInsertPosterized = async () => {
+    if (!posterResult || isConverting) return;
+    if (!posterTargets.some(Boolean)) { setStatus("❌ Pick at least one drop target region"); return; }
+    try { setIsConverting(true); setStatus("Adding…"); const fitted = await fitLayersToShapeBudget(posterResult.layers, posterTargets, posterResult.viewBox); await addFrameFromLayers(fitted.layers, fitted.dropTargets, posterResult.viewBox); saveFrame({ name: posterResult.name, paths: fitted.layers.flatMap((l) => l.paths), viewBox: posterResult.viewBox, layers: fitted.layers, dropTargets: fitted.dropTargets }); setSavedFrames(getSavedFrames()); incrementUsage(); setDailyUsage(getTodayUsage()); showSuccess("🎉 Frame created!"); setTimeout(clearFileSelection, 2500); } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
   };
 
+  const updateBatchItem = (index: number, patch: Partial<BatchItem>) => setBatchItems((items) => items.map((it) => (it.index === index ? { ...it, ...patch } : it)));
+  // Follows a batch job over SSE, inserting each frame as soon as its file finishes; resolves once the job and all insertions are done
+  const streamBatchJob = (jobId: string) => new Promise<{ added: number; skipped: number; failed: number }>((resolve, reject) => {
+    let added = 0, skipped = 0, inserting: Promise<void> = Promise.resolve();
+    const events = new EventSource(`${BACKEND_URL}/vectorize-batch/${jobId}/events`);
+    events.addEventListener("item", (e) => {
+      const item = JSON.parse((e as MessageEvent).data);
+      if (item.status !== "done") { updateBatchItem(item.index, { status: item.status, error: item.error && describeApiError(item.error) }); return; }
+      if (batchHandled.current.has(item.index)) return;
+      batchHandled.current.add(item.index); updateBatchItem(item.index, { status: "done", error: undefined });
+      inserting = inserting.then(async () => { try { const r = await fitToShapeBudget(item); await addFrameFromPaths(r.paths, r.viewBox); saveFrame({ name: stripExtension(item.name), paths: r.paths, viewBox: r.viewBox }); setSavedFrames(getSavedFrames()); updateBatchItem(item.index, { status: "inserted" }); added++; await delay(300); } catch (err: any) { updateBatchItem(item.index, { status: "skipped", error: err?.message }); skipped++; } });
+    });
+    events.addEventListener("done", (e) => { events.close(); const { failed } = JSON.parse((e as MessageEvent).data); inserting.then(() => resolve({ added, skipped, failed })); });
+    events.onerror = () => { events.close(); reject(new Error("Lost connection to batch job")); };
+  });
+  const reportBatch = ({ added, skipped, failed }: { added: number; skipped: number; failed: number }) => { if (added) showSuccess(`🎉 ${added} created!${skipped ? ` (${skipped} too detailed)` : ""}${failed ? ` · ${failed} failed` : ""}`); else setStatus(`❌ No frames created${failed ? ` · ${failed} failed` : ""}`); };
   const onBatchConvert = async () => {
     if (!batchFiles.length || isConverting) return;
     if (!isPro) { setStatus("🔒 Batch mode is Pro only"); setActiveTab("pro"); return; }
-    try { setIsConverting(true); setBatchProgress(0); const form = new FormData(); batchFiles.forEach((f) => form.append("files", f)); const data = await (await fetch(`${BACKEND_URL}/vectorize-batch`, { method: "POST", body: form })).json(); const results = data.results || []; let added = 0; for (let i = 0; i < results.length; i++) { setBatchProgress(Math.round(((i + 1) / results.length) * 100)); const r = results[i]; if (r.paths?.length) { await addFrameFromPaths(r.paths, r.viewBox); saveFrame({ name: r.name || `batch-${i}`, paths: r.paths, viewBox: r.viewBox }); added++; await delay(300); } } setSavedFrames(getSavedFrames()); showSuccess(`🎉 ${added} created!`); setBatchFiles([]); setBatchProgress(0); } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
+    try { setIsConverting(true); batchHandled.current = new Set(); const form = new FormData(); batchFiles.forEach((f) => form.append("files", f)); appendTraceSettings(form, traceSettings); const data = await callApi("/vectorize-batch", { method: "POST", body: form }); setBatchJobId(data.jobId); setBatchItems(data.items.map((it: BatchItem) => ({ index: it.index, name: it.name, status: it.status }))); reportBatch(await streamBatchJob(data.jobId)); } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
+  };
+  const onBatchRetry = async () => {
+    if (!batchJobId || isConverting) return;
+    try { setIsConverting(true); await callApi(`/vectorize-batch/${batchJobId}/retry`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({}) }); reportBatch(await streamBatchJob(batchJobId)); } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
+  };
+  const onBatchClear = () => { setBatchFiles([]); setBatchItems([]); setBatchJobId(null); };
+  const batchFinished = batchItems.filter((it) => it.status === "inserted" || it.status === "skipped" || it.status === "error").length;
+  const batchFailed = batchItems.filter((it) => it.status === "error").length;
+
+  const onAddFromLibrary = async (f: SavedFrame) => { try { setStatus("Adding…"); if (f.layers && f.dropTargets) { const fitted = await fitLayersToShapeBudget(f.layers, f.dropTargets, f.viewBox); await addFrameFromLayers(fitted.layers, fitted.dropTargets, f.viewBox); } else { const fitted = await fitToShapeBudget({ paths: f.paths, viewBox: f.viewBox, stats: shapeStats(f.paths) }); await addFrameFromPaths(fitted.paths, fitted.viewBox); } showSuccess("✅ Added!"); } catch (e: any) { setStatus(`❌ ${e?.message}`); } };
+  const onSaveTeamColor = async (color: string) => {
+    try { const data = await callApi("/palette", { method: "POST", headers: { "Content-Type": "application/json", ...(await authHeaders()) }, body: JSON.stringify({ color }) }); setTeamColors(data.colors); showSuccess("🎨 Saved to team palette"); } catch (e: any) { setStatus(`❌ ${e?.message}`); }
+  };
+  const onRemoveTeamColor = async (color: string) => {
+    try { await callApi(`/palette/${encodeURIComponent(color.replace("#", ""))}`, { method: "DELETE", headers: await authHeaders() }); setTeamColors((colors) => colors.filter((c) => c.color !== color)); } catch (e: any) { setStatus(`❌ ${e?.message}`); }
   };
 
-  const onAddFromLibrary = async (f: SavedFrame) => { try { setStatus("Adding…"); await addFrameFromPaths(f.paths, f.viewBox); showSuccess("✅ Added!"); } catch (e: any) { setStatus(`❌ ${e?.message}`); } };
   const onAddWithEffect = async () => {
     if (!isPro) { setStatus("🔒 Effects are Pro only"); setActiveTab("pro"); return; }
-    try { setIsConverting(true); const f = FRAME_PATHS[selectedFrameForEffect]; await addFrameWithEffect(f.paths, f.viewBox, selectedEffect, selectedColor); showSuccess("✅ Added!"); } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
+    const f = resolveShapeSource(effectSource);
+    if (!f) { setStatus("❌ That shape is no longer available — pick another"); return; }
+    try { setIsConverting(true); await addFrameWithEffect(f.paths, f.viewBox, selectedEffect, selectedColor, effectSettings, border, effectGradient); showSuccess("✅ Added!"); } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
   };
 
-  const onConvertTextToFrame = async () => {
-    const text = manualText.trim(); if (!text || isConverting) return;
-    if (!isPro) { setStatus("🔒 Text frames are Pro only"); setActiveTab("pro"); return; }
-    try { setIsConverting(true); setStatus("🔄 Converting…"); const data = await (await fetch(`${BACKEND_URL}/text-to-frame`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ text, fontSize: textFontSize, fontStyle: textFontStyle, mode: textMode }) })).json(); if (data.error) throw new Error(data.error);
-      if (textMode === "individual" && data.results) { let added = 0; for (const r of data.results) { if (r.paths?.length) { await addFrameFromPaths(r.paths, r.viewBox); saveFrame({ name: `Letter: ${r.letter}`, paths: r.paths, viewBox: r.viewBox }); added++; await delay(400); } } setSavedFrames(getSavedFrames()); showSuccess(`🎉 ${added} letters!`); }
-      else { if (!data.paths?.length) throw new Error("No paths"); await addFrameFromPaths(data.paths, data.viewBox); saveFrame({ name: `Text: ${text.substring(0, 20)}`, paths: data.paths, viewBox: data.viewBox }); setSavedFrames(getSavedFrames()); showSuccess("🎉 Text frame!"); }
-    } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
+  const onUploadFont = async (file: File | undefined) => {
+    if (!file || isConverting) return;
+    if (file.size > 5242880) { setStatus(`❌ ${API_ERROR_MESSAGES.FILE_TOO_LARGE}`); return; }
+    try { setIsConverting(true); setStatus("⬆️ Uploading font…"); const form = new FormData(); form.append("file", file); form.append("scope", shareFontWithTeam ? "brand" : "user"); const { font } = await callApi("/fonts", { method: "POST", headers: await authHeaders(), body: form }); setFontOptions((opts) => [...opts.filter((f) => f.id !== font.id), font]); setTextFontStyle(font.id); showSuccess(`✅ ${font.name} added`); } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
+  };
+  const onDeleteFont = async (font: FontOption) => {
+    try { await callApi(`/fonts/${font.id}`, { method: "DELETE", headers: await authHeaders() }); setFontOptions((opts) => opts.filter((f) => f.id !== font.id)); if (textFontStyle === font.id) setTextFontStyle("sans-bold"); setStatus(`🗑️ ${font.name} removed`); } catch (e: any) { setStatus(`❌ ${e?.message}`); }
+  };
+
+  // Converts text and inserts it page-fit, or into `target` (the original text's box); true on success
+  const convertText = async (text: string, target?: PlacementBox) => {
+    if (!text || isConverting) return false;
+    if (!isPro) { setStatus("🔒 Text frames are Pro only"); setActiveTab("pro"); return false; }
+    try { setIsConverting(true); setStatus("🔄 Converting…"); const data = await callApi("/text-to-frame", { method: "POST", headers: { "Content-Type": "application/json", ...(await authHeaders()) }, body: JSON.stringify({ text, fontSize: textFontSize, fontStyle: textFontStyle, mode: textMode, ...textLayout, curve: textCurvePayload(textCurveMode, textCurveRadius, textCurveOutline) }) });
+      if (textMode === "individual" && data.results) { const letters: PlacedLetter[] = []; for (const letter of data.results) { if (letter.paths?.length) letters.push(await fitToShapeBudget(letter)); } if (!letters.length) throw new Error(describeApiError({ code: "NO_PATHS" })); await addLetterFrames(letters, groupLetters, target); letters.forEach((r) => saveFrame({ name: `Letter: ${r.letter}`, paths: r.paths, viewBox: r.viewBox })); setSavedFrames(getSavedFrames()); showSuccess(`🎉 ${letters.length} letters!`); }
+      else { if (!data.paths?.length) throw new Error(describeApiError({ code: "NO_PATHS" })); const fitted = await fitToShapeBudget(data); await insertConverted(fitted.paths, fitted.viewBox, target); saveFrame({ name: `Text: ${text.replace(/\s+/g, " ").substring(0, 20)}`, paths: fitted.paths, viewBox: fitted.viewBox }); setSavedFrames(getSavedFrames()); showSuccess("🎉 Text frame!"); }
+      return true;
+    } catch (e: any) { setStatus(`❌ ${e?.message}`); return false; } finally { setIsConverting(false); }
+  };
+  const onConvertTextToFrame = () => convertText(manualText.trim());
+  const onUseSelectedText = async () => {
+    const text = selectedText.trim(); if (!text || isConverting) return;
+    const { box: target, matches } = await findTextElementBox(text).catch(() => ({ box: undefined, matches: 0 }));
+    if (!(await convertText(text, target))) return;
+    if (!target) { setStatus(matches > 1 ? `⚠️ Frame added at the default spot — ${matches} text boxes on this page read "${text.substring(0, 20)}", so the original was left in place` : "⚠️ Frame added at the default spot — couldn't find the selected text on this page, so nothing was removed"); return; }
+    if (replaceSelectedText) { try { if (!(await deleteTextElement(text))) setStatus("⚠️ Frame added, but the original text changed and was left in place"); } catch (e: any) { setStatus(`⚠️ Frame added, but the original text couldn't be removed: ${e?.message}`); } }
   };
 
   const onConvertShapeToFrame = async () => {
     if (!shapeFile || isConverting) return;
     if (!isPro) { setStatus("🔒 Shape convert is Pro only"); setActiveTab("pro"); return; }
-    try { setIsConverting(true); setStatus("🔄 Converting…"); const form = new FormData(); form.append("file", shapeFile); const data = await (await fetch(`${BACKEND_URL}/shape-to-frame`, { method: "POST", body: form })).json(); if (data.error) throw new Error(data.error); if (!data.paths?.length) throw new Error("No paths"); await addFrameFromPaths(data.paths, data.viewBox); saveFrame({ name: "Shape Frame", paths: data.paths, viewBox: data.viewBox }); setSavedFrames(getSavedFrames()); showSuccess("🎉 Shape frame!"); setShapeFile(null); setShapePreview(""); } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
+    try { setIsConverting(true); setStatus("🔄 Converting…"); const form = new FormData(); form.append("file", shapeFile); appendTraceSettings(form, traceSettings); const data = await callApi("/shape-to-frame", { method: "POST", body: form }); if (!data.paths?.length) throw new Error(describeApiError({ code: "NO_PATHS" })); const fitted = await fitToShapeBudget(data); await addFrameFromPaths(fitted.paths, fitted.viewBox); saveFrame({ name: "Shape Frame", paths: fitted.paths, viewBox: fitted.viewBox }); setSavedFrames(getSavedFrames()); showSuccess("🎉 Shape frame!"); setShapeFile(null); setShapePreview(""); } catch (e: any) { setStatus(`❌ ${e?.message}`); } finally { setIsConverting(false); }
   };
 
   const remainingFree = Math.max(0, FREE_DAILY_LIMIT - dailyUsage);
@@ -246,6 +919,7 @@ function App() {
         <div style={{ display: "flex", marginTop: 14, gap: 2 }}>
           {([
             { id: "frames" as Tab, icon: "🖼️", label: "Frames" },
+            { id: "layouts" as Tab, icon: "🧩", label: "Layouts" },
             { id: "convert" as Tab, icon: "🔄", label: "Convert" },
             { id: "effects" as Tab, icon: "✨", label: "Effects" },
             { id: "pro" as Tab, icon: "👑", label: "Pro" },
@@ -292,6 +966,16 @@ function App() {
       {/* ===== CONTENT ===== */}
       <div style={{ padding: "16px 20px", animation: "slideIn 0.15s ease-out", background: "white", minHeight: 400 }}>
 
+        {/* Placement for inserted frames */}
+        {activeTab !== "pro" && activeTab !== "layouts" && <div style={{ marginBottom: 14 }}>
+          <div style={{ display: "flex", gap: 4 }}>
+            {PLACEMENT_OPTIONS.map((o) => <button key={o.id} onClick={() => updatePlacement({ ...placement, mode: o.id })} style={{ flex: 1, padding: "6px 4px", background: placement.mode === o.id ? "#EEF2FF" : "#F9FAFB", color: placement.mode === o.id ? "#4F46E5" : "#666", borderRadius: 6, border: placement.mode === o.id ? "1px solid #A5B4FC" : "1px solid #E5E7EB", cursor: "pointer", fontSize: 10, fontWeight: 600 }}>{o.label}</button>)}
+          </div>
+          {placement.mode === "fixed" && <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 4, marginTop: 6 }}>
+            {(["left", "top", "width", "height"] as const).map((k) => <label key={k} style={{ fontSize: 9, color: "#9CA3AF", display: "flex", flexDirection: "column", gap: 2 }}>{k.toUpperCase()}<input type="number" min={k === "width" || k === "height" ? 1 : undefined} value={placement.fixed[k]} onChange={(e) => updatePlacement({ ...placement, fixed: { ...placement.fixed, [k]: Math.max(k === "width" || k === "height" ? 1 : -32768, Number(e.target.value) || 0) } })} style={{ width: "100%", padding: "4px 6px", borderRadius: 6, border: "1px solid #E5E7EB", fontSize: 11 }} /></label>)}
+          </div>}
+        </div>}
+
         {/* ===== FRAMES TAB ===== */}
         {activeTab === "frames" && (
           <div>
@@ -315,6 +999,67 @@ function App() {
               </div>
             </div>
 
+            {/* Shape generator */}
+            <div style={{ marginBottom: 20, padding: 12, borderRadius: 12, border: "1px solid #E5E7EB" }}>
+              <div style={{ fontSize: 13, fontWeight: 700, color: "#333", marginBottom: 10 }}>🛠️ Shape Generator</div>
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 4, marginBottom: 10 }}>
+                {GENERATOR_KINDS.map((k) => <Button key={k.id} variant="secondary" pressed={generatorKind === k.id} onClick={() => setGeneratorKind(k.id)} stretch>{k.label}</Button>)}
+              </div>
+              <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+                <svg viewBox={`${generatedShape.viewBox.left} ${generatedShape.viewBox.top} ${generatedShape.viewBox.width} ${generatedShape.viewBox.height}`} style={{ width: 88, height: 88, flexShrink: 0, background: "#F9FAFB", borderRadius: 8, padding: 6 }}>{generatedShape.paths.map((d, i) => <path key={i} d={d} fill="#6366F1" />)}</svg>
+                <div style={{ flex: 1 }}>
+                  {GENERATOR_SLIDERS[generatorKind].map((sl) => (
+                    <label key={sl.key} style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 11, color: "#666", marginBottom: 4 }}>
+                      <span style={{ width: 72 }}>{sl.label}</span>
+                      <div style={{ flex: 1 }}><Slider min={sl.min} max={sl.max} step={sl.step} value={generatorParams[sl.key]} onChange={(v) => setGeneratorParams({ ...generatorParams, [sl.key]: v })} /></div>
+                      <strong style={{ width: 28, textAlign: "right", color: "#374151" }}>{generatorParams[sl.key]}</strong>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div style={{ display: "flex", gap: 6, marginTop: 10 }}>
+                <div style={{ flex: 1 }}><Button variant="primary" onClick={onAddGenerated} stretch>✦ Add frame</Button></div>
+                <Button variant="secondary" onClick={onSaveGenerated}>💾 Save</Button>
+              </div>
+            </div>
+
+            {/* Shape combiner */}
+            <div style={{ marginBottom: 20, padding: 12, borderRadius: 12, border: "1px solid #E5E7EB" }}>
+              <div style={{ fontSize: 13, fontWeight: 700, color: "#333", marginBottom: 10 }}>🧬 Combine Shapes</div>
+              <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 4, marginBottom: 10 }}>
+                {BOOLEAN_OPS.map((o) => <Button key={o.id} variant="secondary" pressed={combineOp === o.id} onClick={() => setCombineOp(o.id)} stretch>{o.label}</Button>)}
+              </div>
+              {combineParts.map((part, i) => (
+                <div key={i} style={{ padding: 8, background: "#F9FAFB", borderRadius: 8, marginBottom: 6 }}>
+                  <div style={{ display: "flex", gap: 6, alignItems: "center", marginBottom: 4 }}>
+                    <span style={{ fontSize: 10, fontWeight: 700, color: "#9CA3AF", width: 36 }}>{i === 0 ? "BASE" : `#${i + 1}`}</span>
+                    <select value={part.source} onChange={(e) => updateCombinePart(i, { source: e.target.value })} style={{ flex: 1, padding: "5px 6px", borderRadius: 6, border: "1px solid #E5E7EB", fontSize: 11 }}>
+                      {(Object.keys(FRAME_PATHS) as Preset[]).map((k) => <option key={k} value={k}>{FRAME_PATHS[k]?.emoji} {k}</option>)}
+                      <option value="generated">🛠️ Generated shape</option>
+                      {savedFrames.map((f) => <option key={f.id} value={f.id}>📚 {f.name}</option>)}
+                    </select>
+                    {combineParts.length > 2 && <Button variant="tertiary" onClick={() => setCombineParts(combineParts.filter((_, j) => j !== i))} ariaLabel="Remove shape">✕</Button>}
+                  </div>
+                  {([{ key: "x", label: "Offset X", min: -100, max: 100, step: 1 }, { key: "y", label: "Offset Y", min: -100, max: 100, step: 1 }, { key: "scale", label: "Scale", min: 0.1, max: 2, step: 0.05 }] as { key: "x" | "y" | "scale"; label: string; min: number; max: number; step: number }[]).map((sl) => (
+                    <label key={sl.key} style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 10, color: "#666" }}>
+                      <span style={{ width: 48 }}>{sl.label}</span>
+                      <div style={{ flex: 1 }}><Slider min={sl.min} max={sl.max} step={sl.step} value={part[sl.key]} onChange={(v) => updateCombinePart(i, { [sl.key]: v })} /></div>
+                      <strong style={{ width: 28, textAlign: "right", color: "#374151" }}>{part[sl.key]}</strong>
+                    </label>
+                  ))}
+                </div>
+              ))}
+              {combineParts.length < 8 && <Button variant="tertiary" onClick={() => setCombineParts([...combineParts, { source: "circle", x: 0, y: 0, scale: 0.5 }])} stretch>＋ Add shape</Button>}
+              <div style={{ marginTop: 8, height: 120, borderRadius: 8, background: "#F9FAFB", border: "1px solid #E5E7EB", display: "flex", alignItems: "center", justifyContent: "center", position: "relative" }}>
+                {combineResult ? <svg viewBox={`${combineResult.viewBox.left} ${combineResult.viewBox.top} ${combineResult.viewBox.width} ${combineResult.viewBox.height}`} style={{ width: "100%", height: "100%", padding: 8 }}>{combineResult.paths.map((d, i) => <path key={i} d={d} fill="#6366F1" />)}</svg> : <span style={{ fontSize: 11, color: "#9CA3AF" }}>Nothing left — adjust the shapes</span>}
+                {combineResult?.stats && <span style={{ position: "absolute", bottom: 4, right: 6, fontSize: 9, fontWeight: 700, color: isOverBudget(combineResult.stats) ? "#DC2626" : "#9CA3AF" }}>{combineResult.stats.paths} paths · {(combineResult.stats.bytes / 1024).toFixed(1)}KB</span>}
+              </div>
+              <div style={{ display: "flex", gap: 6, marginTop: 10 }}>
+                <div style={{ flex: 1 }}><Button variant="primary" onClick={onAddCombined} disabled={!combineResult || isConverting} stretch>✦ Add frame</Button></div>
+                <Button variant="secondary" onClick={onSaveCombined} disabled={!combineResult}>💾 Save</Button>
+              </div>
+            </div>
+
             {/* Pro Shapes */}
             <div>
               <div style={{ fontSize: 13, fontWeight: 700, color: "#333", marginBottom: 10, display: "flex", alignItems: "center", gap: 6 }}>
@@ -342,13 +1087,50 @@ function App() {
           </div>
         )}
 
+        {/* ===== LAYOUTS TAB ===== */}
+        {activeTab === "layouts" && (
+          <div>
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6, marginBottom: 12 }}>
+              {LAYOUT_KINDS.map((k) => <Button key={k.id} variant="secondary" pressed={layoutSpec.kind === k.id} onClick={() => setLayoutSpec({ ...layoutSpec, kind: k.id })} stretch>{k.label}</Button>)}
+            </div>
+            {([
+              ...(layoutSpec.kind === "grid" ? [{ key: "cols", label: "Columns", min: 1, max: 6, step: 1 }, { key: "rows", label: "Rows", min: 1, max: 6, step: 1 }] : []),
+              ...(layoutSpec.kind === "scatter" || layoutSpec.kind === "ring" ? [{ key: "count", label: layoutSpec.kind === "ring" ? "Around" : "Photos", min: 2, max: 12, step: 1 }] : []),
+              { key: "gutter", label: "Gutter", min: 0, max: 80, step: 2 },
+            ] as { key: "cols" | "rows" | "count" | "gutter"; label: string; min: number; max: number; step: number }[]).map((sl) => (
+              <label key={sl.key} style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 11, color: "#666", marginBottom: 4 }}>
+                <span style={{ width: 64 }}>{sl.label}</span>
+                <div style={{ flex: 1 }}><Slider min={sl.min} max={sl.max} step={sl.step} value={layoutSpec[sl.key]} onChange={(v) => setLayoutSpec({ ...layoutSpec, [sl.key]: v })} /></div>
+                <strong style={{ width: 28, textAlign: "right", color: "#374151" }}>{layoutSpec[sl.key]}</strong>
+              </label>
+            ))}
+
+            <div style={{ fontSize: 12, fontWeight: 700, color: "#333", margin: "12px 0 6px" }}>Shape</div>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(5, 1fr)", gap: 4 }}>
+              {(Object.keys(FRAME_PATHS) as Preset[]).map((k) => <div key={k} style={{ opacity: PRO_SHAPES.includes(k) && !isPro ? 0.5 : 1 }}><Button variant="secondary" pressed={layoutShape === k} onClick={() => setLayoutShape(k)} tooltipLabel={k} stretch>{FRAME_PATHS[k]?.emoji}</Button></div>)}
+            </div>
+            {savedFrames.length > 0 && <select value={FRAME_PATHS[layoutShape] ? "" : layoutShape} onChange={(e) => setLayoutShape(e.target.value || "square")} style={{ marginTop: 6, width: "100%", padding: "7px 8px", borderRadius: 8, border: "1px solid #E5E7EB", fontSize: 11, color: "#374151" }}>
+              <option value="">From my library…</option>
+              {savedFrames.map((f) => <option key={f.id} value={f.id}>{f.name}</option>)}
+            </select>}
+
+            <div style={{ marginTop: 12, borderRadius: 10, border: "1px solid #E5E7EB", background: "#F9FAFB", padding: 8 }}>
+              <svg viewBox={`0 0 ${layoutPage.width} ${layoutPage.height}`} style={{ width: "100%", maxHeight: 200, display: "block", background: "white" }}>
+                {layoutSource && layoutPreviewCells.map((c, i) => <g key={i} transform={c.rotation ? `rotate(${c.rotation} ${c.left + c.width / 2} ${c.top + c.height / 2})` : undefined}><svg x={c.left} y={c.top} width={c.width} height={c.height} viewBox={`${layoutSource.viewBox.left} ${layoutSource.viewBox.top} ${layoutSource.viewBox.width} ${layoutSource.viewBox.height}`}>{layoutSource.paths.map((d, j) => <path key={j} d={d} fill="#C7D2FE" stroke="#6366F1" strokeWidth={layoutSource.viewBox.width / 80} />)}</svg></g>)}
+              </svg>
+            </div>
+
+            <div style={{ marginTop: 12 }}><Button variant="primary" onClick={onAddLayout} disabled={!layoutSource} loading={isConverting} stretch>{`✦ Add ${layoutPreviewCells.length} frames`}</Button></div>
+          </div>
+        )}
+
         {/* ===== CONVERT TAB ===== */}
         {activeTab === "convert" && (
           <div>
             {/* Sub-tabs */}
             <div style={{ display: "flex", gap: 4, marginBottom: 16, background: "#F3F4F6", borderRadius: 10, padding: 4 }}>
               {([
-                { id: "png" as const, label: "PNG", icon: "🖼️" },
+                { id: "png" as const, label: "Image", icon: "🖼️" },
                 { id: "batch" as const, label: "Batch", icon: "📦", pro: true },
                 { id: "text" as const, label: "Text", icon: "📝", pro: true },
                 { id: "shape" as const, label: "Shape", icon: "🔷", pro: true },
@@ -367,10 +1149,55 @@ function App() {
               ))}
             </div>
 
-            {/* PNG Convert */}
+            {/* Advanced tracing — shared by PNG, Batch and Shape uploads */}
+            {convertSubTab !== "text" && (
+              <div style={{ marginBottom: 12, border: "1px solid #E5E7EB", borderRadius: 10, overflow: "hidden" }}>
+                <button onClick={() => setShowAdvanced(!showAdvanced)} style={{ width: "100%", padding: "9px 12px", background: "#F9FAFB", border: "none", cursor: "pointer", fontSize: 12, fontWeight: 700, color: "#374151", display: "flex", justifyContent: "space-between" }}>
+                  <span>⚙️ Advanced · {TRACE_PRESETS[tracePreset]?.name ?? "Custom"}</span><span>{showAdvanced ? "▴" : "▾"}</span>
+                </button>
+                {showAdvanced && (
+                  <div style={{ padding: 12 }}>
+                    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 4, marginBottom: 10 }}>
+                      {Object.entries(TRACE_PRESETS).map(([id, p]) => <button key={id} onClick={() => { setTracePreset(id); setTraceSettings(p.settings); }} style={{ padding: "7px 8px", background: tracePreset === id ? "#6366F1" : "#F9FAFB", color: tracePreset === id ? "white" : "#666", borderRadius: 6, border: tracePreset === id ? "none" : "1px solid #E5E7EB", cursor: "pointer", fontSize: 11, fontWeight: 600 }}>{p.name}</button>)}
+                    </div>
+                    {TRACE_SLIDERS.map((sl) => {
+                      const current = traceSettings ?? DEFAULT_TRACE_SETTINGS;
+                      return (
+                        <label key={sl.key} style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 11, color: "#666", marginBottom: 4 }}>
+                          <span style={{ width: 104 }}>{sl.label}</span>
+                          <input type="range" min={sl.min} max={sl.max} step={sl.step} value={current[sl.key]} onChange={(e) => { setTracePreset("custom"); setTraceSettings({ ...current, [sl.key]: Number(e.target.value) }); }} style={{ flex: 1, accentColor: "#6366F1" }} />
+                          <strong style={{ width: 32, textAlign: "right", color: "#374151" }}>{current[sl.key]}</strong>
+                        </label>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {(convertSubTab === "png" || convertSubTab === "text") && (
+              <div style={{ display: "flex", gap: 6, alignItems: "center", marginBottom: 12, fontSize: 12, color: "#666" }}>
+                <span style={{ fontWeight: 700, color: "#374151" }}>✨</span>
+                <select value={convertEffect} onChange={(e) => setConvertEffect(e.target.value as FrameEffect)} disabled={!isPro} style={{ flex: 1, padding: "6px 8px", borderRadius: 8, border: "1px solid #E5E7EB", fontSize: 12 }}>
+                  {(["none", "outline", "double", "glow", "shadow"] as FrameEffect[]).map((e) => <option key={e} value={e}>{e === "none" ? "No effect" : `${e.charAt(0).toUpperCase()}${e.slice(1)}`}</option>)}
+                </select>
+                <select value={convertBorder} onChange={(e) => setConvertBorder(e.target.value as BorderStyle)} disabled={!isPro} style={{ flex: 1, padding: "6px 8px", borderRadius: 8, border: "1px solid #E5E7EB", fontSize: 12 }}>
+                  {BORDER_STYLES.map((b) => <option key={b.id} value={b.id}>{b.id === "none" ? "No border" : `${b.label} border`}</option>)}
+                </select>
+                {isPro ? <button onClick={() => setActiveTab("effects")} title="Color and sizes come from the Effects tab" style={{ background: "none", border: "none", color: "#6366F1", cursor: "pointer", fontSize: 11, fontWeight: 700 }}>Style →</button> : <span title="Effects are Pro">🔒</span>}
+              </div>
+            )}
+
+            {/* Image Convert */}
             {convertSubTab === "png" && (
               <div>
-                <input type="file" accept="image/png" onChange={(e) => onFileSelect(e.target.files?.[0] || null)} style={{ display: "none" }} id="file-input" disabled={isConverting} />
+                {selectedImageRef && <div style={{ padding: "10px 12px", background: "#EEF2FF", border: "1px solid #C7D2FE", borderRadius: 10, marginBottom: 12, fontSize: 12 }}>
+                  <span style={{ fontWeight: 700, color: "#3730A3" }}>🖼️ Image selected in your design</span>
+                  <div style={{ display: "flex", gap: 6, marginTop: 8 }}>
+                    {([["/vectorize", "✦ Frame"], ["/smart-crop", "✂️ Smart crop"], ["/remove-bg", "🪄 Remove BG"]] as [ImagePipeline, string][]).map(([ep, label]) => <button key={ep} onClick={() => onConvertSelectedImage(ep)} disabled={isConverting} style={{ flex: 1, padding: "7px 4px", background: "#6366F1", color: "white", borderRadius: 8, border: "none", cursor: isConverting ? "not-allowed" : "pointer", fontSize: 11, fontWeight: 700 }}>{label}</button>)}
+                  </div>
+                </div>}
+                <input type="file" accept={UPLOAD_ACCEPT} onChange={(e) => onFileSelect(e.target.files?.[0] || null)} style={{ display: "none" }} id="file-input" disabled={isConverting} />
                 <label htmlFor="file-input" style={{
                   display: "flex", flexDirection: "column", alignItems: "center", justifyContent: "center",
                   padding: "24px 16px", background: isDragging ? "#EEF2FF" : "#F9FAFB", borderRadius: 14,
@@ -378,19 +1205,30 @@ function App() {
                   transition: "all 0.2s", gap: 8,
                 }}>
                   <span style={{ fontSize: 32 }}>{selectedFile ? "✅" : "📁"}</span>
-                  <span style={{ fontSize: 13, fontWeight: 600, color: "#374151" }}>{selectedFile ? selectedFile.name : "Drop or choose PNG"}</span>
-                  <span style={{ fontSize: 11, color: "#9CA3AF" }}>Max 5MB • Cmd+V to paste</span>
+                  <span style={{ fontSize: 13, fontWeight: 600, color: "#374151" }}>{selectedFile ? selectedFile.name : "Drop or choose an image"}</span>
+                  <span style={{ fontSize: 11, color: "#9CA3AF" }}>PNG, JPEG, WebP, SVG, PDF • Max 5MB • Cmd+V to paste</span>
                 </label>
 
                 <div style={{ marginTop: 10, display: "flex", gap: 8 }}>
                   <label style={{ fontSize: 12, display: "flex", alignItems: "center", gap: 4, cursor: "pointer", color: "#666" }}><input type="checkbox" checked={useSmartCrop} onChange={(e) => setUseSmartCrop(e.target.checked)} style={{ accentColor: "#6366F1" }} /> Smart Crop</label>
                   <label style={{ fontSize: 12, display: "flex", alignItems: "center", gap: 4, cursor: "pointer", color: "#666" }}><input type="checkbox" checked={useRemoveBg} onChange={(e) => setUseRemoveBg(e.target.checked)} style={{ accentColor: "#6366F1" }} /> Remove BG</label>
+                  <label style={{ fontSize: 12, display: "flex", alignItems: "center", gap: 4, cursor: "pointer", color: "#666" }}><input type="checkbox" checked={usePosterize} disabled={useSmartCrop || useRemoveBg} onChange={(e) => setUsePosterize(e.target.checked)} style={{ accentColor: "#6366F1" }} /> Multi-color</label>
                 </div>
+                {useRemoveBg && !useSmartCrop && <div style={{ marginTop: 8, display: "grid", gridTemplateColumns: "auto 1fr auto", alignItems: "center", gap: "4px 8px", fontSize: 12, color: "#666" }}>
+                  Feather <input type="range" min={0} max={10} value={bgFeather} onChange={(e) => setBgFeather(Number(e.target.value))} style={{ accentColor: "#6366F1" }} /> <strong style={{ color: "#374151" }}>{bgFeather}px</strong>
+                  Grow / shrink <input type="range" min={-10} max={10} value={bgDilate} onChange={(e) => setBgDilate(Number(e.target.value))} style={{ accentColor: "#6366F1" }} /> <strong style={{ color: "#374151" }}>{bgDilate > 0 ? "+" : ""}{bgDilate}px</strong>
+                </div>}
+                {usePosterize && !useSmartCrop && !useRemoveBg && <div style={{ marginTop: 8, display: "flex", alignItems: "center", gap: 8, fontSize: 12, color: "#666" }}>Colors <input type="range" min={2} max={7} value={posterColors} onChange={(e) => setPosterColors(Number(e.target.value))} style={{ flex: 1, accentColor: "#6366F1" }} /> <strong style={{ color: "#374151" }}>{posterColors}</strong></div>}
 
                 {previewUrl && (
                   <div style={{ marginTop: 12 }}>
-                    <div style={{ position: "relative" }}>
-                      <img src={previewUrl} alt="" style={{ width: "100%", maxHeight: 160, objectFit: "contain", borderRadius: 10, border: "1px solid #E5E7EB", background: "repeating-conic-gradient(#F3F4F6 0% 25%, white 0% 50%) 50% / 16px 16px" }} />
+                    <div style={{ position: "relative", display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6 }}>
+                      {selectedFile?.type === "application/pdf" ? <div style={{ height: 140, borderRadius: 10, border: "1px solid #E5E7EB", background: "#F9FAFB", display: "flex", flexDirection: "column", alignItems: "center", justifyContent: "center", gap: 4, fontSize: 11, color: "#6B7280" }}><span style={{ fontSize: 28 }}>📄</span>PDF · page 1</div> : <img src={previewUrl} alt="" style={{ width: "100%", height: 140, objectFit: "contain", borderRadius: 10, border: "1px solid #E5E7EB", background: "repeating-conic-gradient(#F3F4F6 0% 25%, white 0% 50%) 50% / 16px 16px" }} />}
+                      <div style={{ height: 140, borderRadius: 10, border: "1px solid #E5E7EB", background: "#F9FAFB", display: "flex", alignItems: "center", justifyContent: "center", position: "relative", opacity: isPreviewing ? 0.5 : 1, transition: "opacity 0.2s" }}>
+                        {tracePreview ? <svg viewBox={`${tracePreview.viewBox.left} ${tracePreview.viewBox.top} ${tracePreview.viewBox.width} ${tracePreview.viewBox.height}`} style={{ width: "100%", height: "100%", padding: 8 }}>{tracePreview.layers ? tracePreview.layers.map((l, i) => l.paths.map((d, j) => <path key={`${i}-${j}`} d={d} fill={l.color} />)) : tracePreview.paths.map((d, i) => <path key={i} d={d} fill="#6366F1" />)}</svg> : <span style={{ fontSize: 11, color: "#9CA3AF" }}>{isPreviewing ? "Tracing…" : "No preview"}</span>}
+                        <span style={{ position: "absolute", bottom: 4, left: 6, fontSize: 9, fontWeight: 700, color: "#9CA3AF" }}>TRACE PREVIEW</span>
+                        {tracePreview?.stats && <span style={{ position: "absolute", bottom: 4, right: 6, fontSize: 9, fontWeight: 700, color: isOverBudget(tracePreview.stats) ? "#DC2626" : "#9CA3AF" }}>{tracePreview.stats.paths} paths · {(tracePreview.stats.bytes / 1024).toFixed(1)}KB</span>}
+                      </div>
                       <button onClick={clearFileSelection} style={{ position: "absolute", top: 6, right: 6, width: 26, height: 26, borderRadius: "50%", background: "rgba(0,0,0,0.6)", border: "none", color: "white", fontSize: 14, cursor: "pointer", display: "flex", alignItems: "center", justifyContent: "center" }}>✕</button>
                     </div>
                     <button onClick={onConvertToFrame} disabled={isConverting} style={{
@@ -400,6 +1238,16 @@ function App() {
                     }}>{isConverting ? <><Spinner /> Converting...</> : "Convert to Frame ⏎"}</button>
                   </div>
                 )}
+
+                {posterResult && (
+                  <div style={{ marginTop: 12, padding: 12, background: "#F9FAFB", borderRadius: 12, border: "1px solid #E5E7EB" }}>
+                    <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", marginBottom: 8 }}><span style={{ fontSize: 12, fontWeight: 700, color: "#374151" }}>Drop target regions</span>{posterResult.stats && <span title={isOverBudget(posterResult.stats) ? "Over Canva's shape limit — layers are simplified to fit when inserted" : undefined} style={{ fontSize: 9, fontWeight: 700, color: isOverBudget(posterResult.stats) ? "#DC2626" : "#9CA3AF" }}>{posterResult.stats.paths} paths · {(posterResult.stats.bytes / 1024).toFixed(1)}KB</span>}</div>
+                    <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                      {posterResult.layers.map((l, i) => <button key={i} onClick={() => setPosterTargets(posterTargets.map((t, j) => (j === i ? !t : t)))} style={{ display: "flex", alignItems: "center", gap: 6, padding: "6px 10px", background: posterTargets[i] ? "#EEF2FF" : "white", border: posterTargets[i] ? "2px solid #6366F1" : "2px solid #E5E7EB", borderRadius: 8, cursor: "pointer", fontSize: 11, fontWeight: 600, color: "#444" }}><span style={{ width: 16, height: 16, borderRadius: 4, background: l.color, border: "1px solid rgba(0,0,0,0.1)" }} />{posterTargets[i] ? "📷 Photo" : "Keep color"}</button>)}
+                    </div>
+                    <button onClick={onInsertPosterized} disabled={isConverting} style={{ marginTop: 10, width: "100%", padding: "11px", background: isConverting ? "#A5B4FC" : "linear-gradient(135deg, #6366F1, #8B5CF6)", color: "white", borderRadius: 10, border: "none", cursor: isConverting ? "wait" : "pointer", fontSize: 13, fontWeight: 700, display: "flex", alignItems: "center", justifyContent: "center" }}>{isConverting ? <><Spinner /> Adding...</> : "Insert Frame"}</button>
+                  </div>
+                )}
               </div>
             )}
 
@@ -407,12 +1255,15 @@ function App() {
             {convertSubTab === "batch" && (
               <div>
                 {!isPro && <div style={{ padding: "12px 14px", background: "#FEF3C7", border: "1px solid #FDE68A", borderRadius: 10, marginBottom: 14, fontSize: 12, color: "#92400E" }}>🔒 Batch convert is a <strong>Pro feature</strong>. <button onClick={() => setActiveTab("pro")} style={{ background: "none", border: "none", color: "#D97706", fontWeight: 700, cursor: "pointer", textDecoration: "underline" }}>Upgrade →</button></div>}
-                <input type="file" accept="image/png" multiple onChange={(e) => setBatchFiles(Array.from(e.target.files || []))} style={{ display: "none" }} id="batch-input" />
+                <input type="file" accept={UPLOAD_ACCEPT} multiple onChange={(e) => { setBatchFiles(Array.from(e.target.files || []).filter(isSupportedUpload)); setBatchItems([]); setBatchJobId(null); }} style={{ display: "none" }} id="batch-input" />
                 <label htmlFor="batch-input" style={{ display: "flex", flexDirection: "column", alignItems: "center", padding: "20px", background: "#F9FAFB", borderRadius: 14, border: "2px dashed #D1D5DB", cursor: "pointer", gap: 6 }}>
                   <span style={{ fontSize: 28 }}>📦</span>
-                  <span style={{ fontSize: 13, fontWeight: 600, color: "#374151" }}>{batchFiles.length > 0 ? `${batchFiles.length} files selected` : "Choose multiple PNGs"}</span>
+                  <span style={{ fontSize: 13, fontWeight: 600, color: "#374151" }}>{batchFiles.length > 0 ? `${batchFiles.length} files selected` : "Choose multiple images"}</span>
                 </label>
-                {batchFiles.length > 0 && <div style={{ marginTop: 12 }}>{batchProgress > 0 && <div style={{ height: 6, background: "#E5E7EB", borderRadius: 3, marginBottom: 10, overflow: "hidden" }}><div style={{ height: "100%", width: `${batchProgress}%`, background: "linear-gradient(90deg, #6366F1, #8B5CF6)", borderRadius: 3, transition: "width 0.3s" }} /></div>}<div style={{ display: "flex", gap: 8 }}><button onClick={onBatchConvert} disabled={isConverting || !isPro} style={{ flex: 1, padding: "12px", background: isPro ? "linear-gradient(135deg, #6366F1, #8B5CF6)" : "#D1D5DB", color: "white", borderRadius: 10, border: "none", cursor: isPro ? "pointer" : "not-allowed", fontSize: 13, fontWeight: 700, display: "flex", alignItems: "center", justifyContent: "center" }}>{isConverting ? <><Spinner /> Converting...</> : `Convert All (${batchFiles.length})`}</button><button onClick={() => setBatchFiles([])} style={{ padding: "12px 16px", background: "#F3F4F6", color: "#666", borderRadius: 10, border: "none", cursor: "pointer" }}>Clear</button></div></div>}
+                {batchFiles.length > 0 && <div style={{ marginTop: 12 }}>{batchItems.length > 0 && <div style={{ height: 6, background: "#E5E7EB", borderRadius: 3, marginBottom: 10, overflow: "hidden" }}><div style={{ height: "100%", width: `${Math.round((batchFinished / batchItems.length) * 100)}%`, background: "linear-gradient(90deg, #6366F1, #8B5CF6)", borderRadius: 3, transition: "width 0.3s" }} /></div>}<div style={{ display: "flex", gap: 8 }}><button onClick={onBatchConvert} disabled={isConverting || !isPro} style={{ flex: 1, padding: "12px", background: isPro ? "linear-gradient(135deg, #6366F1, #8B5CF6)" : "#D1D5DB", color: "white", borderRadius: 10, border: "none", cursor: isPro ? "pointer" : "not-allowed", fontSize: 13, fontWeight: 700, display: "flex", alignItems: "center", justifyContent: "center" }}>{isConverting ? <><Spinner /> Converting {batchFinished}/{batchItems.length || batchFiles.length}...</> : `Convert All (${batchFiles.length})`}</button><button onClick={onBatchClear} disabled={isConverting} style={{ padding: "12px 16px", background: "#F3F4F6", color: "#666", borderRadius: 10, border: "none", cursor: "pointer" }}>Clear</button></div>
+                  {batchItems.length > 0 && <div style={{ marginTop: 10, border: "1px solid #E5E7EB", borderRadius: 10, maxHeight: 200, overflowY: "auto" }}>{batchItems.map((it) => <div key={it.index} title={it.error} style={{ display: "flex", justifyContent: "space-between", gap: 8, padding: "6px 10px", fontSize: 12, borderTop: it.index ? "1px solid #F3F4F6" : "none" }}><span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", color: "#374151" }}>{it.name}</span><span style={{ flexShrink: 0, color: it.status === "error" ? "#DC2626" : it.status === "skipped" ? "#D97706" : "#6B7280" }}>{BATCH_STATUS_LABELS[it.status]}</span></div>)}</div>}
+                  {batchFailed > 0 && !isConverting && <button onClick={onBatchRetry} style={{ marginTop: 8, width: "100%", padding: "10px", background: "#FEF2F2", color: "#DC2626", borderRadius: 10, border: "1px solid #FECACA", cursor: "pointer", fontSize: 12, fontWeight: 700 }}>🔁 Retry failed ({batchFailed})</button>}
+                </div>}
               </div>
             )}
 
@@ -420,20 +1271,55 @@ function App() {
             {convertSubTab === "text" && (
               <div>
                 {!isPro && <div style={{ padding: "12px 14px", background: "#FEF3C7", border: "1px solid #FDE68A", borderRadius: 10, marginBottom: 14, fontSize: 12, color: "#92400E" }}>🔒 Text to frame is <strong>Pro</strong>. <button onClick={() => setActiveTab("pro")} style={{ background: "none", border: "none", color: "#D97706", fontWeight: 700, cursor: "pointer", textDecoration: "underline" }}>Upgrade →</button></div>}
-                {hasTextSelection && <div style={{ padding: "10px 12px", background: "#ECFDF5", border: "1px solid #A7F3D0", borderRadius: 10, marginBottom: 12, fontSize: 12 }}><span style={{ fontWeight: 700, color: "#065F46" }}>✅ Canvas text: </span><span style={{ color: "#047857" }}>"{selectedText}"</span></div>}
-                <input type="text" value={manualText} onChange={(e) => setManualText(e.target.value)} placeholder="Type text here..." maxLength={50} style={{ width: "100%", padding: "12px 14px", borderRadius: 10, border: "2px solid #E5E7EB", fontSize: 16, fontWeight: 700, outline: "none" }} onFocus={(e) => (e.target.style.borderColor = "#6366F1")} onBlur={(e) => (e.target.style.borderColor = "#E5E7EB")} />
+                {hasTextSelection && <div style={{ padding: "10px 12px", background: "#ECFDF5", border: "1px solid #A7F3D0", borderRadius: 10, marginBottom: 12, fontSize: 12 }}><span style={{ fontWeight: 700, color: "#065F46" }}>✅ Canvas text: </span><span style={{ color: "#047857" }}>"{selectedText}"</span>
+                  <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 8 }}><button onClick={onUseSelectedText} disabled={isConverting || !isPro} style={{ padding: "7px 12px", background: isPro ? "#059669" : "#D1D5DB", color: "white", borderRadius: 8, border: "none", cursor: isPro ? "pointer" : "not-allowed", fontSize: 11, fontWeight: 700 }}>✨ Use selected text</button><label style={{ fontSize: 11, display: "flex", alignItems: "center", gap: 4, cursor: "pointer", color: "#065F46" }}><input type="checkbox" checked={replaceSelectedText} onChange={(e) => setReplaceSelectedText(e.target.checked)} style={{ accentColor: "#059669" }} /> Replace original</label></div></div>}
+                <textarea value={manualText} onChange={(e) => setManualText(e.target.value)} placeholder="Type text here… (Enter for a new line)" maxLength={500} rows={3} style={{ width: "100%", padding: "12px 14px", borderRadius: 10, border: "2px solid #E5E7EB", fontSize: 16, fontWeight: 700, outline: "none", resize: "vertical", fontFamily: "inherit", textAlign: textLayout.align }} onFocus={(e) => (e.target.style.borderColor = "#6366F1")} onBlur={(e) => (e.target.style.borderColor = "#E5E7EB")} />
 
                 <div style={{ display: "flex", gap: 6, margin: "10px 0" }}>
                   <button onClick={() => setTextMode("combined")} style={{ flex: 1, padding: "9px", background: textMode === "combined" ? "#6366F1" : "#F3F4F6", color: textMode === "combined" ? "white" : "#666", borderRadius: 8, border: "none", cursor: "pointer", fontSize: 11, fontWeight: 700 }}>🔗 One Frame</button>
                   <button onClick={() => setTextMode("individual")} style={{ flex: 1, padding: "9px", background: textMode === "individual" ? "#6366F1" : "#F3F4F6", color: textMode === "individual" ? "white" : "#666", borderRadius: 8, border: "none", cursor: "pointer", fontSize: 11, fontWeight: 700 }}>✂️ Each Letter</button>
                 </div>
+                {textMode === "individual" && <label style={{ fontSize: 11, display: "flex", alignItems: "center", gap: 4, marginBottom: 10, cursor: "pointer", color: "#666" }}><input type="checkbox" checked={groupLetters} onChange={(e) => setGroupLetters(e.target.checked)} style={{ accentColor: "#6366F1" }} /> Insert letters as a group</label>}
 
                 <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 4, marginBottom: 10 }}>
-                  {FONT_OPTIONS.map((f) => <button key={f.id} onClick={() => setTextFontStyle(f.id)} style={{ padding: "7px 8px", background: textFontStyle === f.id ? "#6366F1" : "#F9FAFB", color: textFontStyle === f.id ? "white" : "#666", borderRadius: 6, border: textFontStyle === f.id ? "none" : "1px solid #E5E7EB", cursor: "pointer", fontSize: 11, fontWeight: 600 }}>{f.name}</button>)}
+                  {fontOptions.map((f) => <button key={f.id} onClick={() => setTextFontStyle(f.id)} title={f.custom ? `${f.family} · ${f.scope === "user" ? "only you" : "your team"}` : f.family} style={{ position: "relative", padding: "7px 8px", background: textFontStyle === f.id ? "#6366F1" : "#F9FAFB", color: textFontStyle === f.id ? "white" : "#666", borderRadius: 6, border: textFontStyle === f.id ? "none" : "1px solid #E5E7EB", cursor: "pointer", fontSize: 11, fontWeight: 600, display: "flex", alignItems: "center", justifyContent: "center", height: 32 }}>{f.preview ? <svg viewBox={`${f.preview.viewBox.left} ${f.preview.viewBox.top} ${f.preview.viewBox.width} ${f.preview.viewBox.height}`} style={{ height: 16, maxWidth: "100%" }} fill="currentColor">{f.preview.paths.map((d, i) => <path key={i} d={d} />)}</svg> : f.name}{f.custom && <span role="button" aria-label={`Remove ${f.name}`} onClick={(e) => { e.stopPropagation(); onDeleteFont(f); }} style={{ position: "absolute", top: 1, right: 4, fontSize: 10, opacity: 0.6 }}>×</span>}</button>)}
+                </div>
+
+                <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 10 }}>
+                  <input type="file" accept=".ttf,.otf,.woff,font/ttf,font/otf,font/woff" onChange={(e) => { onUploadFont(e.target.files?.[0]); e.target.value = ""; }} style={{ display: "none" }} id="font-input" />
+                  <label htmlFor="font-input" style={{ padding: "6px 10px", background: "#F3F4F6", borderRadius: 6, fontSize: 11, fontWeight: 600, color: "#374151", cursor: "pointer" }}>＋ Upload font</label>
+                  <label style={{ fontSize: 11, display: "flex", alignItems: "center", gap: 4, cursor: "pointer", color: "#666" }}><input type="checkbox" checked={shareFontWithTeam} onChange={(e) => setShareFontWithTeam(e.target.checked)} style={{ accentColor: "#6366F1" }} /> Share with team</label>
                 </div>
 
                 <input type="range" min={80} max={400} value={textFontSize} onChange={(e) => setTextFontSize(Number(e.target.value))} style={{ width: "100%", accentColor: "#6366F1" }} />
 
+                <div style={{ display: "flex", gap: 4, margin: "8px 0" }}>
+                  {TEXT_ALIGN_OPTIONS.map((a) => <button key={a.id} onClick={() => setTextLayout({ ...textLayout, align: a.id })} style={{ flex: 1, padding: "7px", background: textLayout.align === a.id ? "#6366F1" : "#F9FAFB", color: textLayout.align === a.id ? "white" : "#666", borderRadius: 6, border: textLayout.align === a.id ? "none" : "1px solid #E5E7EB", cursor: "pointer", fontSize: 11, fontWeight: 600 }}>{a.label}</button>)}
+                </div>
+                {TEXT_LAYOUT_SLIDERS.map((sl) => (
+                  <label key={sl.key} style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 11, color: "#666", marginBottom: 4 }}>
+                    <span style={{ width: 92 }}>{sl.label}</span>
+                    <input type="range" min={sl.min} max={sl.max} step={sl.step} value={textLayout[sl.key]} onChange={(e) => setTextLayout({ ...textLayout, [sl.key]: Number(e.target.value) })} style={{ flex: 1, accentColor: "#6366F1" }} />
+                    <strong style={{ width: 40, textAlign: "right", color: "#374151" }}>{sl.key === "maxWidth" && !textLayout.maxWidth ? "off" : sl.key === "maxWidth" ? `${textLayout.maxWidth}em` : textLayout[sl.key]}</strong>
+                  </label>
+                ))}
+
+                <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 4, margin: "8px 0" }}>
+                  {TEXT_CURVE_OPTIONS.map((c) => <button key={c.id} onClick={() => setTextCurveMode(c.id)} style={{ padding: "7px 2px", background: textCurveMode === c.id ? "#6366F1" : "#F9FAFB", color: textCurveMode === c.id ? "white" : "#666", borderRadius: 6, border: textCurveMode === c.id ? "none" : "1px solid #E5E7EB", cursor: "pointer", fontSize: 10, fontWeight: 600 }}>{c.label}</button>)}
+                </div>
+                {textCurveMode === "outline" && <div style={{ display: "grid", gridTemplateColumns: "repeat(5, 1fr)", gap: 4, marginBottom: 6 }}>
+                  {(Object.keys(FRAME_PATHS) as Preset[]).map((k) => <button key={k} onClick={() => setTextCurveOutline(k)} style={{ padding: "6px 2px", background: textCurveOutline === k ? "#6366F1" : "#F3F4F6", color: textCurveOutline === k ? "white" : "#666", borderRadius: 6, border: "none", cursor: "pointer", fontSize: 10 }}>{FRAME_PATHS[k]?.emoji}</button>)}
+                </div>}
+                {textCurveMode !== "none" && <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 11, color: "#666", marginBottom: 4 }}>
+                  <span style={{ width: 92 }}>{textCurveMode === "outline" ? "Outline size" : "Radius"}</span>
+                  <input type="range" min={1} max={12} step={0.25} value={textCurveRadius} onChange={(e) => setTextCurveRadius(Number(e.target.value))} style={{ flex: 1, accentColor: "#6366F1" }} />
+                  <strong style={{ width: 40, textAlign: "right", color: "#374151" }}>{textCurveRadius}em</strong>
+                </label>}
+
+                {manualText.trim() && <div style={{ marginTop: 8, height: 120, borderRadius: 10, border: "1px solid #E5E7EB", background: "#F9FAFB", display: "flex", alignItems: "center", justifyContent: "center" }}>
+                  {textPreview ? <svg viewBox={`${textPreview.viewBox.left} ${textPreview.viewBox.top} ${textPreview.viewBox.width} ${textPreview.viewBox.height}`} style={{ width: "100%", height: "100%", padding: 8 }}>{textPreview.paths.map((d, i) => <path key={i} d={d} fill="#6366F1" />)}</svg> : <span style={{ fontSize: 11, color: "#9CA3AF" }}>Rendering…</span>}
+                </div>}
+
                 <button onClick={onConvertTextToFrame} disabled={!manualText.trim() || isConverting || !isPro} style={{ marginTop: 12, width: "100%", padding: "13px", background: isPro && manualText.trim() ? "linear-gradient(135deg, #6366F1, #8B5CF6)" : "#D1D5DB", color: "white", borderRadius: 10, border: "none", cursor: isPro && manualText.trim() ? "pointer" : "not-allowed", fontSize: 14, fontWeight: 700, display: "flex", alignItems: "center", justifyContent: "center" }}>{isConverting ? <><Spinner /> Converting...</> : "✦ Convert Text"}</button>
               </div>
             )}
@@ -442,10 +1328,10 @@ function App() {
             {convertSubTab === "shape" && (
               <div>
                 {!isPro && <div style={{ padding: "12px 14px", background: "#FEF3C7", border: "1px solid #FDE68A", borderRadius: 10, marginBottom: 14, fontSize: 12, color: "#92400E" }}>🔒 Shape convert is <strong>Pro</strong>. <button onClick={() => setActiveTab("pro")} style={{ background: "none", border: "none", color: "#D97706", fontWeight: 700, cursor: "pointer", textDecoration: "underline" }}>Upgrade →</button></div>}
-                <input type="file" accept="image/png,image/jpeg" onChange={(e) => { const f = e.target.files?.[0]; if (f) { setShapeFile(f); setShapePreview(URL.createObjectURL(f)); } }} style={{ display: "none" }} id="shape-input" />
+                <input type="file" accept={UPLOAD_ACCEPT} onChange={(e) => { const f = e.target.files?.[0]; if (f) { setShapeFile(f); setShapePreview(URL.createObjectURL(f)); } }} style={{ display: "none" }} id="shape-input" />
                 <label htmlFor="shape-input" style={{ display: "flex", flexDirection: "column", alignItems: "center", padding: "20px", background: "#F9FAFB", borderRadius: 14, border: "2px dashed #D1D5DB", cursor: "pointer", gap: 6 }}>
                   <span style={{ fontSize: 28 }}>🔷</span>
-                  <span style={{ fontSize: 13, fontWeight: 600, color: "#374151" }}>{shapeFile ? shapeFile.name : "Upload shape PNG"}</span>
+                  <span style={{ fontSize: 13, fontWeight: 600, color: "#374151" }}>{shapeFile ? shapeFile.name : "Upload shape image"}</span>
                 </label>
                 {shapePreview && <div style={{ marginTop: 12, position: "relative" }}><img src={shapePreview} alt="" style={{ width: "100%", maxHeight: 160, objectFit: "contain", borderRadius: 10, border: "1px solid #E5E7EB" }} /><button onClick={() => { setShapeFile(null); setShapePreview(""); }} style={{ position: "absolute", top: 6, right: 6, width: 26, height: 26, borderRadius: "50%", background: "rgba(0,0,0,0.6)", border: "none", color: "white", cursor: "pointer", display: "flex", alignItems: "center", justifyContent: "center" }}>✕</button></div>}
                 <button onClick={onConvertShapeToFrame} disabled={!shapeFile || isConverting || !isPro} style={{ marginTop: 12, width: "100%", padding: "13px", background: isPro && shapeFile ? "linear-gradient(135deg, #6366F1, #8B5CF6)" : "#D1D5DB", color: "white", borderRadius: 10, border: "none", cursor: isPro && shapeFile ? "pointer" : "not-allowed", fontSize: 14, fontWeight: 700, display: "flex", alignItems: "center", justifyContent: "center" }}>{isConverting ? <><Spinner /> Converting...</> : "✦ Convert Shape"}</button>
@@ -461,7 +1347,16 @@ function App() {
 
             <div style={{ fontSize: 13, fontWeight: 700, color: "#333", marginBottom: 8 }}>Shape</div>
             <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 1fr 1fr", gap: 4, marginBottom: 16 }}>
-              {(Object.keys(FRAME_PATHS) as Preset[]).map((k) => <button key={k} onClick={() => setSelectedFrameForEffect(k)} style={{ padding: "8px 2px", background: selectedFrameForEffect === k ? "#6366F1" : "#F3F4F6", color: selectedFrameForEffect === k ? "white" : "#666", borderRadius: 8, border: "none", cursor: "pointer", fontSize: 10, fontWeight: 700 }}>{FRAME_PATHS[k].emoji}</button>)}
+              {(Object.keys(FRAME_PATHS) as Preset[]).map((k) => <button key={k} onClick={() => setEffectSource(k)} style={{ padding: "8px 2px", background: effectSource === k ? "#6366F1" : "#F3F4F6", color: effectSource === k ? "white" : "#666", borderRadius: 8, border: "none", cursor: "pointer", fontSize: 10, fontWeight: 700 }}>{FRAME_PATHS[k].emoji}</button>)}
+            </div>
+            <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: -8, marginBottom: 16 }}>
+              <select value={FRAME_PATHS[effectSource] ? "" : effectSource} onChange={(e) => setEffectSource(e.target.value || "circle")} style={{ flex: 1, padding: "7px 8px", borderRadius: 8, border: "1px solid #E5E7EB", fontSize: 12 }}>
+                <option value="">Or use another frame…</option>
+                {lastConverted && <option value="converted">🖼️ Last converted: {lastConverted.name}</option>}
+                {textPreview && <option value="text">🔤 Text: {manualText.trim().substring(0, 24)}</option>}
+                {savedFrames.filter((f) => !f.layers).map((f) => <option key={f.id} value={f.id}>📚 {f.name}</option>)}
+              </select>
+              {(() => { const src = resolveShapeSource(effectSource); return src && <svg viewBox={`${src.viewBox.left} ${src.viewBox.top} ${src.viewBox.width} ${src.viewBox.height}`} style={{ width: 34, height: 34, flexShrink: 0 }}>{src.paths.map((d, i) => <path key={i} d={d} fill="#6366F1" />)}</svg>; })()}
             </div>
 
             <div style={{ fontSize: 13, fontWeight: 700, color: "#333", marginBottom: 8 }}>Effect</div>
@@ -469,17 +1364,53 @@ function App() {
               {(["none","shadow","glow","outline","double"] as FrameEffect[]).map((e) => <button key={e} onClick={() => setSelectedEffect(e)} style={{ padding: "10px 6px", background: selectedEffect === e ? "#6366F1" : "#F3F4F6", color: selectedEffect === e ? "white" : "#666", borderRadius: 8, border: "none", cursor: "pointer", fontSize: 11, fontWeight: 700 }}>{e === "none" ? "None" : e.charAt(0).toUpperCase() + e.slice(1)}</button>)}
             </div>
 
+            {selectedEffect !== "none" && (
+              <div style={{ marginBottom: 14, padding: 10, background: "#F9FAFB", borderRadius: 10 }}>
+                {EFFECT_SLIDERS[selectedEffect].map((sl) => (
+                  <label key={sl.key} style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 11, color: "#666", marginBottom: 4 }}>
+                    <span style={{ width: 56 }}>{sl.label}</span>
+                    <input type="range" min={sl.min} max={sl.max} step={sl.step} value={effectSettings[sl.key]} onChange={(e) => setEffectSettings({ ...effectSettings, [sl.key]: Number(e.target.value) })} style={{ flex: 1, accentColor: "#6366F1" }} />
+                    <strong style={{ width: 36, textAlign: "right", color: "#374151" }}>{sl.percent ? `${Math.round(effectSettings[sl.key] * 100)}%` : effectSettings[sl.key]}</strong>
+                  </label>
+                ))}
+              </div>
+            )}
+
             {selectedEffect !== "none" && (
               <div style={{ marginBottom: 14 }}>
                 <div style={{ fontSize: 13, fontWeight: 700, color: "#333", marginBottom: 8 }}>Color</div>
-                <div style={{ display: "flex", gap: 5, flexWrap: "wrap" }}>
-                  {COLOR_PRESETS.map((c) => <button key={c} onClick={() => { setSelectedColor(c); setCustomColor(c); }} style={{ width: 26, height: 26, borderRadius: "50%", background: c, border: selectedColor === c ? "3px solid #333" : "2px solid #E5E7EB", cursor: "pointer", padding: 0 }} />)}
-                  <input type="color" value={customColor} onChange={(e) => { setCustomColor(e.target.value); setSelectedColor(e.target.value); }} style={{ width: 26, height: 26, border: "none", cursor: "pointer", padding: 0, borderRadius: "50%" }} />
-                </div>
+                {!effectGradient && <ColorSwatches value={selectedColor} onChange={setSelectedColor} teamColors={teamColors} onSaveTeamColor={onSaveTeamColor} onRemoveTeamColor={onRemoveTeamColor} size={26} />}
+                <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 11, color: "#555", cursor: "pointer", marginTop: 8 }}>
+                  <input type="checkbox" checked={!!effectGradient} onChange={(e) => setEffectGradient(e.target.checked ? DEFAULT_GRADIENT : null)} disabled={selectedEffect === "double"} />
+                  Gradient{selectedEffect === "double" && " (not for Double)"}
+                </label>
+                {effectGradient && selectedEffect !== "double" && <GradientEditor value={effectGradient} onChange={setEffectGradient} />}
+              </div>
+            )}
+
+            <div style={{ fontSize: 13, fontWeight: 700, color: "#333", marginBottom: 8 }}>Border</div>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 4, marginBottom: 10 }}>
+              {BORDER_STYLES.map((b) => <Button key={b.id} variant="secondary" pressed={border.style === b.id} onClick={() => setBorder({ ...border, style: b.id })} stretch>{b.label}</Button>)}
+            </div>
+            {border.style !== "none" && (
+              <div style={{ marginBottom: 16, padding: 10, background: "#F9FAFB", borderRadius: 10 }}>
+                {BORDER_SLIDERS.filter((sl) => sl.key !== "spacing" || !["solid", "double"].includes(border.style)).map((sl) => (
+                  <label key={sl.key} style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 11, color: "#666", marginBottom: 4 }}>
+                    <span style={{ width: 56 }}>{sl.label}</span>
+                    <div style={{ flex: 1 }}><Slider min={sl.min} max={sl.max} step={sl.step} value={border[sl.key]} onChange={(v) => setBorder({ ...border, [sl.key]: v })} /></div>
+                    <strong style={{ width: 36, textAlign: "right", color: "#374151" }}>{sl.percent ? `${(border[sl.key] * 100).toFixed(1)}%` : `${border[sl.key]}×`}</strong>
+                  </label>
+                ))}
+                <div style={{ margin: "6px 0" }}>{!border.gradient && <ColorSwatches value={border.color} onChange={(color) => setBorder({ ...border, color })} teamColors={teamColors} onSaveTeamColor={onSaveTeamColor} onRemoveTeamColor={onRemoveTeamColor} size={22} />}</div>
+                <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 11, color: "#555", cursor: "pointer" }}>
+                  <input type="checkbox" checked={!!border.gradient} onChange={(e) => setBorder({ ...border, gradient: e.target.checked ? { ...DEFAULT_GRADIENT, stops: [{ offset: 0, color: border.color }, ...DEFAULT_GRADIENT.stops.slice(1)] } : null })} />
+                  Gradient
+                </label>
+                {border.gradient && <GradientEditor value={border.gradient} onChange={(gradient) => setBorder({ ...border, gradient })} />}
               </div>
             )}
 
-            <button onClick={onAddWithEffect} disabled={isConverting || !isPro} style={{ width: "100%", padding: "13px", background: isPro ? "linear-gradient(135deg, #6366F1, #8B5CF6)" : "#D1D5DB", color: "white", borderRadius: 10, border: "none", cursor: isPro ? "pointer" : "not-allowed", fontSize: 14, fontWeight: 700, display: "flex", alignItems: "center", justifyContent: "center", boxShadow: isPro ? "0 4px 14px rgba(99,102,241,0.3)" : "none" }}>{isConverting ? <><Spinner /> Adding...</> : `Add ${selectedFrameForEffect}${selectedEffect !== "none" ? ` + ${selectedEffect}` : ""}`}</button>
+            <button onClick={onAddWithEffect} disabled={isConverting || !isPro} style={{ width: "100%", padding: "13px", background: isPro ? "linear-gradient(135deg, #6366F1, #8B5CF6)" : "#D1D5DB", color: "white", borderRadius: 10, border: "none", cursor: isPro ? "pointer" : "not-allowed", fontSize: 14, fontWeight: 700, display: "flex", alignItems: "center", justifyContent: "center", boxShadow: isPro ? "0 4px 14px rgba(99,102,241,0.3)" : "none" }}>{isConverting ? <><Spinner /> Adding...</> : `Add ${effectSourceLabel ?? "frame"}${selectedEffect !== "none" ? ` + ${selectedEffect}` : ""}${border.style !== "none" ? ` + ${border.style} border` : ""}`}</button>
           </div>
         )}
 
@@ -503,7 +1434,7 @@ function App() {
                 <div style={{ textAlign: "center" }}>4</div>
                 <div style={{ textAlign: "center", color: "#059669" }}>10</div>
 
-                <div style={{ color: "#555" }}>PNG → Frame</div>
+                <div style={{ color: "#555" }}>Image → Frame</div>
                 <div style={{ textAlign: "center" }}>{FREE_DAILY_LIMIT}/day</div>
                 <div style={{ textAlign: "center", color: "#059669" }}>∞</div>
 
@@ -562,9 +1493,10 @@ function App() {
       </div>
 
       {/* Drag overlay */}
-      {isDragging && <div style={{ position: "fixed", top: 0, left: 0, right: 0, bottom: 0, background: "rgba(99,102,241,0.1)", display: "flex", alignItems: "center", justifyContent: "center", zIndex: 100 }}><div style={{ background: "white", padding: "24px 36px", borderRadius: 16, boxShadow: "0 8px 30px rgba(0,0,0,0.12)", fontSize: 16, fontWeight: 700, color: "#6366F1" }}>📂 Drop PNG here</div></div>}
+      {isDragging && <div style={{ position: "fixed", top: 0, left: 0, right: 0, bottom: 0, background: "rgba(99,102,241,0.1)", display: "flex", alignItems: "center", justifyContent: "center", zIndex: 100 }}><div style={{ background: "white", padding: "24px 36px", borderRadius: 16, boxShadow: "0 8px 30px rgba(0,0,0,0.12)", fontSize: 16, fontWeight: 700, color: "#6366F1" }}>📂 Drop image here</div></div>}
     </div>
   );
 }
 
-createRoot(document.getElementById("root")!).render(<App />);
+const root = document.getElementById("root");
+if (root) createRoot(root).render(<AppUiProvider><App /></AppUiProvider>);
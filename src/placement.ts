@@ -0,0 +1,40 @@
+import { getCurrentPageContext, getDefaultPageDimensions } from "@canva/design";
+
+// Where an existing element sits on the page, e.g. the text a frame is replacing
+export interface PlacementBox { top: number; left: number; width: number; height: number; rotation?: number; }
+// Largest box with the content's aspect ratio, centered in the target
+export function fitIntoBox(width: number, height: number, target: PlacementBox): PlacementBox {
+  const scale = Math.min(target.width / width, target.height / height);
+  return { top: target.top + (target.height - height * scale) / 2, left: target.left + (target.width - width * scale) / 2, width: width * scale, height: height * scale, rotation: target.rotation };
+}
+
+// Where new frames go, remembered between sessions: fit to the page, onto the current
+// selection's bounds (page-fit when nothing matches), or a fixed box in page pixels
+// No "at cursor" mode: addElementAtCursor doesn't accept shape elements
+export type PlacementMode = "page" | "selection" | "fixed";
+export interface PlacementSettings { mode: PlacementMode; fixed: PlacementBox; }
+export const DEFAULT_PLACEMENT: PlacementSettings = { mode: "page", fixed: { top: 100, left: 100, width: 400, height: 400 } };
+export function getPlacementSettings(): PlacementSettings { try { return { ...DEFAULT_PLACEMENT, ...JSON.parse(localStorage.getItem("frame_maker_placement") || "{}") }; } catch { return DEFAULT_PLACEMENT; } }
+export function savePlacementSettings(p: PlacementSettings) { localStorage.setItem("frame_maker_placement", JSON.stringify(p)); }
+
+export async function getPageDimensions() {
+  return (await getCurrentPageContext().catch(() => undefined))?.dimensions ?? getDefaultPageDimensions();
+}
+
+// Largest box of the content's aspect ratio inside the current page, less 10% padding;
+// responsive designs have no page size, so they get the default fixed box
+export async function getPageFitBox(width = 1, height = 1) {
+  const dims = await getPageDimensions();
+  if (!dims) return fitIntoBox(width, height, DEFAULT_PLACEMENT.fixed);
+  const pw = dims.width, ph = dims.height;
+  const padding = Math.min(pw, ph) * 0.1;
+  return fitIntoBox(width, height, { top: padding, left: padding, width: pw - padding * 2, height: ph - padding * 2 });
+}
+
+// The selection lookup is passed in because it reads the app's live selection state
+export async function resolvePlacementBox(width: number, height: number, getSelectionBox: () => Promise<PlacementBox | undefined>): Promise<PlacementBox> {
+  const { mode, fixed } = getPlacementSettings();
+  if (mode === "fixed") return fitIntoBox(width, height, fixed);
+  if (mode === "selection") { const box = await getSelectionBox().catch(() => undefined); if (box) return fitIntoBox(width, height, box); }
+  return getPageFitBox(width, height);
+}
@@ -0,0 +1,50 @@
+import { getCurrentPageContext, getDefaultPageDimensions } from "@canva/design";
+import type { PageContext } from "@canva/design";
+import { fitIntoBox, getPageFitBox, resolvePlacementBox, savePlacementSettings } from "../placement";
+
+describe("placement", () => {
+  const mockGetCurrentPageContext = jest.mocked(getCurrentPageContext);
+  const mockGetDefaultPageDimensions = jest.mocked(getDefaultPageDimensions);
+  const noSelection = async () => undefined;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    localStorage.clear();
+    mockGetCurrentPageContext.mockResolvedValue({ dimensions: { width: 1000, height: 500 } } as PageContext);
+  });
+
+  it("fits content into a box keeping its aspect ratio, centered, with the box's rotation", () => {
+    expect(fitIntoBox(200, 100, { top: 10, left: 20, width: 100, height: 100, rotation: 15 })).toEqual({ top: 35, left: 20, width: 100, height: 50, rotation: 15 });
+    expect(fitIntoBox(100, 400, { top: 0, left: 0, width: 100, height: 100 })).toEqual({ top: 0, left: 37.5, width: 25, height: 100, rotation: undefined });
+  });
+
+  it("fits into the current page less 10% padding of its shorter side", async () => {
+    // 50px padding leaves a 900x400 area; a square fills its height
+    expect(await getPageFitBox(1, 1)).toEqual({ top: 50, left: 300, width: 400, height: 400, rotation: undefined });
+  });
+
+  it("falls back to the default page size, then to the default fixed box", async () => {
+    mockGetCurrentPageContext.mockRejectedValue(new Error("no page"));
+    mockGetDefaultPageDimensions.mockResolvedValue({ width: 100, height: 100 });
+    expect(await getPageFitBox(1, 1)).toEqual({ top: 10, left: 10, width: 80, height: 80, rotation: undefined });
+    mockGetDefaultPageDimensions.mockResolvedValue(undefined);
+    expect(await getPageFitBox(2, 1)).toEqual({ top: 200, left: 100, width: 400, height: 200, rotation: undefined });
+  });
+
+  it("uses the saved fixed box in fixed mode", async () => {
+    savePlacementSettings({ mode: "fixed", fixed: { top: 0, left: 0, width: 300, height: 100 } });
+    expect(await resolvePlacementBox(50, 50, noSelection)).toEqual({ top: 0, left: 100, width: 100, height: 100, rotation: undefined });
+  });
+
+  it("fits onto the selection in selection mode, and onto the page when nothing is selected", async () => {
+    savePlacementSettings({ mode: "selection", fixed: { top: 0, left: 0, width: 1, height: 1 } });
+    const selected = async () => ({ top: 100, left: 100, width: 60, height: 30, rotation: 45 });
+    expect(await resolvePlacementBox(1, 1, selected)).toEqual({ top: 100, left: 115, width: 30, height: 30, rotation: 45 });
+    expect(await resolvePlacementBox(1, 1, noSelection)).toEqual(await getPageFitBox(1, 1));
+    expect(await resolvePlacementBox(1, 1, () => Promise.reject(new Error("gone")))).toEqual(await getPageFitBox(1, 1));
+  });
+
+  it("fits to the page by default", async () => {
+    expect(await resolvePlacementBox(2, 1, noSelection)).toEqual({ top: 50, left: 100, width: 800, height: 400, rotation: undefined });
+  });
+});